@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+
+interface CountdownProps {
+  deadline: number | null;
+  className?: string;
+}
+
+export function Countdown({ deadline, className = "" }: CountdownProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (deadline === null) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (deadline === null) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((deadline - now) / 1000));
+
+  return (
+    <div
+      data-testid="text-countdown"
+      className={`flex items-center justify-center gap-2 rounded-lg px-4 py-2 font-bold text-2xl tabular-nums ${
+        secondsLeft <= 5
+          ? "bg-red-50 text-red-600 animate-pulse"
+          : "bg-muted text-muted-foreground"
+      } ${className}`}
+    >
+      <span>⏱️</span>
+      <span>{secondsLeft}</span>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useState } from "react";
+import type { GameState } from "@/hooks/useSocket";
+import { Countdown } from "@/components/Countdown";
+import { FinalResults, rankMedal } from "@/components/FinalResults";
+import { MediaView } from "@/components/MediaView";
+import { hasTeamAnswered } from "@/lib/teams";
+import type { RevealedAnswer } from "@shared/schema";
+
+// How long each step of the reveal stays on screen
+const REVEAL_STEP_MS = 4000;
+
+interface DisplayInterfaceProps {
+  gameState: GameState;
+  code: string; // the room this screen was opened for
+}
+
+// Lies that fooled someone, won the crowd over or got likes, one at a time,
+// then the truth, then the scores
+function RevealSequence({ gameState }: { gameState: GameState }) {
+  const steps = gameState.reveal.filter(
+    (entry) =>
+      entry.isCorrect ||
+      entry.voters.length > 0 ||
+      entry.audienceVotes > 0 ||
+      entry.likes > 0
+  );
+  const [step, setStep] = useState(0);
+
+  useEffect(() => {
+    setStep(0);
+    const interval = setInterval(
+      () => setStep((current) => current + 1),
+      REVEAL_STEP_MS
+    );
+    return () => clearInterval(interval);
+  }, [gameState.reveal]);
+
+  if (step < steps.length) {
+    return <RevealStep entry={steps[step]} gameState={gameState} />;
+  }
+
+  return (
+    <div className="w-full max-w-5xl space-y-4">
+      <h2 className="text-center text-5xl font-bold mb-8">🏆 טבלת הניקוד</h2>
+      {gameState.teamLeaderboard.map((team, index) => (
+        <div
+          key={team.team}
+          data-testid={`display-team-leaderboard-${index}`}
+          className="flex items-center justify-between bg-gradient-to-r from-indigo-50 to-purple-50 rounded-2xl px-8 py-5 border border-indigo-200"
+        >
+          <div className="flex items-center gap-6 text-5xl font-bold">
+            <span>{rankMedal(team.rank)}</span>
+            <span>{team.name}</span>
+            <span className="text-2xl font-normal text-muted-foreground">
+              {team.members.join(", ")}
+            </span>
+          </div>
+          <div className="flex items-center gap-6 text-5xl font-bold text-orange-600">
+            {team.gained > 0 && (
+              <span className="text-3xl text-party-secondary">
+                +{team.gained}
+              </span>
+            )}
+            <span>{team.score}</span>
+          </div>
+        </div>
+      ))}
+      {gameState.leaderboard.map((player, index) => (
+        <div
+          key={player.id}
+          data-testid={`display-leaderboard-${index}`}
+          className="flex items-center justify-between bg-gradient-to-r from-yellow-50 to-orange-50 rounded-2xl px-8 py-5 border border-yellow-200"
+        >
+          <div className="flex items-center gap-6 text-4xl font-bold">
+            <span>{rankMedal(player.rank)}</span>
+            <span>{player.name}</span>
+          </div>
+          <div className="flex items-center gap-6 text-4xl font-bold text-orange-600">
+            {player.gained > 0 && (
+              <span className="text-3xl text-party-secondary">
+                +{player.gained}
+              </span>
+            )}
+            <span>{player.score}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RevealStep({
+  entry,
+  gameState,
+}: {
+  entry: RevealedAnswer;
+  gameState: GameState;
+}) {
+  return (
+    <div
+      data-testid="display-reveal-step"
+      className={`w-full max-w-5xl rounded-3xl border-4 p-12 text-center space-y-8 ${
+        entry.isCorrect
+          ? "bg-green-50 border-green-300"
+          : "bg-red-50 border-red-300"
+      }`}
+    >
+      <div className="text-6xl">{entry.isCorrect ? "✅" : "🤥"}</div>
+      <p className="text-7xl font-bold leading-tight">{entry.answer}</p>
+      {entry.isCorrect && gameState.acceptedAnswers.length > 0 && (
+        <p
+          data-testid="display-accepted-answers"
+          className="text-4xl text-green-700"
+        >
+          או: {gameState.acceptedAnswers.join(", ")}
+        </p>
+      )}
+      {entry.isCorrect ? (
+        gameState.answerMedia && (
+          <div className="flex justify-center">
+            <MediaView
+              key={gameState.answerMedia.url}
+              media={gameState.answerMedia}
+              autoPlay
+              className="max-h-[45vh]"
+              testId="display-answer-media"
+            />
+          </div>
+        )
+      ) : (
+        <p className="text-4xl text-red-700 font-bold">
+          השקר של {entry.authors.join(", ")}
+        </p>
+      )}
+      {entry.voters.length > 0 && (
+        <p className="text-3xl text-muted-foreground">
+          {entry.isCorrect ? "ידעו: " : "נפלו בפח: "}
+          {entry.voters.join(", ")}
+        </p>
+      )}
+      {entry.audienceVotes > 0 && (
+        <p className="text-3xl text-muted-foreground">
+          👀 {entry.audienceVotes} מהקהל
+        </p>
+      )}
+      {entry.likes > 0 && (
+        <p
+          data-testid="display-reveal-likes"
+          className="text-3xl font-bold text-pink-600"
+        >
+          ❤️ {entry.likes}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Full-screen view for a TV or projector: no controls, large type, and
+// the host's phone drives it as a remote
+export function DisplayInterface({ gameState, code }: DisplayInterfaceProps) {
+  const {
+    gamePhase,
+    players,
+    currentQuestion,
+    questionMedia,
+    questionIndex,
+    totalQuestions,
+    audienceVotes,
+    audienceSize,
+  } = gameState;
+
+  if (!gameState.roomCode) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-6 text-center">
+        <div className="text-8xl">📺</div>
+        <p
+          data-testid="text-display-status"
+          className="text-4xl font-bold text-muted-foreground"
+        >
+          {gameState.displayError ?? `מתחבר לחדר ${code}...`}
+        </p>
+      </div>
+    );
+  }
+
+  if (gamePhase === "complete") {
+    return (
+      <div className="mx-auto max-w-4xl py-12">
+        <FinalResults
+          standings={gameState.leaderboard}
+          teamStandings={gameState.teamLeaderboard}
+          awards={gameState.awards}
+        />
+      </div>
+    );
+  }
+
+  const connected = players.filter((player) => player.connected);
+  const answered = connected.filter((player) =>
+    hasTeamAnswered(players, player)
+  ).length;
+  const voted = players.filter((player) => player.hasVoted).length;
+
+  return (
+    <div className="flex min-h-screen flex-col items-center gap-10 px-12 py-10">
+      {/* Room code stays in the corner so late players can still join */}
+      <div className="flex w-full items-center justify-between text-3xl font-bold text-muted-foreground">
+        <span>
+          קוד חדר:{" "}
+          <span
+            data-testid="text-display-room-code"
+            className="text-party-primary tracking-wider"
+          >
+            {gameState.roomCode}
+          </span>
+        </span>
+        {gamePhase !== "waiting" && (
+          <span data-testid="text-display-question-number">
+            {questionIndex}/{totalQuestions}
+          </span>
+        )}
+      </div>
+
+      <div className="flex w-full flex-1 flex-col items-center justify-center gap-10">
+        {gamePhase === "waiting" && (
+          <>
+            <p className="text-4xl font-bold text-muted-foreground">
+              הצטרפו ב-{window.location.host} עם הקוד
+            </p>
+            <p className="text-[10rem] leading-none font-bold tracking-widest text-party-primary">
+              {gameState.roomCode}
+            </p>
+            <div className="flex flex-wrap justify-center gap-4 max-w-6xl">
+              {connected.map((player, index) => (
+                <span
+                  key={player.id}
+                  data-testid={`display-player-${index}`}
+                  className="rounded-full bg-party-secondary px-8 py-4 text-3xl font-bold text-white"
+                >
+                  {player.name}
+                  {player.team !== null &&
+                    gameState.settings?.teams[player.team] &&
+                    ` · ${gameState.settings.teams[player.team]}`}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+
+        {currentQuestion && gamePhase !== "waiting" && (
+          <p
+            data-testid="text-display-question"
+            className={`max-w-6xl text-center font-bold leading-tight ${
+              gamePhase === "revealing" ? "text-4xl" : "text-7xl"
+            }`}
+          >
+            {currentQuestion}
+          </p>
+        )}
+
+        {(gamePhase === "question" || gamePhase === "reviewing") && (
+          <>
+            {questionMedia && (
+              <MediaView
+                key={questionMedia.url}
+                media={questionMedia}
+                autoPlay
+                className="max-h-[50vh]"
+                testId="display-question-media"
+              />
+            )}
+            <p className="text-4xl font-bold text-muted-foreground">
+              ✍️ {answered} / {connected.length}
+            </p>
+          </>
+        )}
+
+        {gamePhase === "voting" && (
+          <>
+            <div className="grid w-full max-w-6xl grid-cols-1 gap-6 md:grid-cols-2">
+              {gameState.votingOptions.map((option, index) => (
+                <div
+                  key={option.answer}
+                  data-testid={`display-option-${index}`}
+                  className="relative overflow-hidden rounded-2xl border-4 border-party-accent bg-white px-8 py-6 text-center text-5xl font-bold"
+                >
+                  {/* Crowd meter: the share of the audience behind this option */}
+                  {audienceSize > 0 && (
+                    <div
+                      data-testid={`display-crowd-meter-${index}`}
+                      className="absolute inset-y-0 right-0 bg-party-accent/30 transition-all duration-500"
+                      style={{
+                        width: `${
+                          ((audienceVotes[option.answer] ?? 0) / audienceSize) *
+                          100
+                        }%`,
+                      }}
+                    />
+                  )}
+                  <span className="relative">{option.answer}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-4xl font-bold text-muted-foreground">
+              🗳️ {voted} / {connected.length}
+              {audienceSize > 0 &&
+                ` · 👀 ${Object.values(audienceVotes).reduce(
+                  (sum, count) => sum + count,
+                  0
+                )} / ${audienceSize}`}
+            </p>
+          </>
+        )}
+
+        {gamePhase === "revealing" && <RevealSequence gameState={gameState} />}
+
+        <Countdown
+          deadline={gameState.deadline}
+          className="text-5xl px-8 py-4"
+        />
+      </div>
+    </div>
+  );
+}
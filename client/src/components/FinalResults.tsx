@@ -0,0 +1,159 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { TeamStandings } from "@/components/TeamStandings";
+import type { Award, Standing, TeamStanding } from "@shared/schema";
+
+interface FinalResultsProps {
+  standings: Standing[];
+  teamStandings?: TeamStanding[]; // team play only
+  awards: Award[];
+  myTeam?: number | null;
+  playerId?: string | null; // highlights "you" on a player's device
+  onNewGame?: () => void; // left out on the big-screen display
+}
+
+export function rankMedal(rank: number): string {
+  return rank === 1 ? "🥇" : rank === 2 ? "🥈" : rank === 3 ? "🥉" : `#${rank}`;
+}
+
+const awardLabels: Record<Award["kind"], { title: string; unit: string }> = {
+  best_liar: { title: "🤥 השקרן הגדול", unit: "שחקנים נפלו בשקרים" },
+  best_detective: { title: "🔍 הבלש הטוב", unit: "תשובות נכונות" },
+  crowd_favourite: { title: "❤️ אהוב הקהל", unit: "לייקים לשקרים" },
+};
+
+// Podium steps in display order: 2nd, 1st, 3rd
+const podiumSteps = [
+  { rank: 2, height: "h-20", color: "bg-gray-200" },
+  { rank: 1, height: "h-28", color: "bg-yellow-300" },
+  { rank: 3, height: "h-14", color: "bg-orange-200" },
+];
+
+export function FinalResults({
+  standings,
+  teamStandings = [],
+  awards,
+  myTeam,
+  playerId,
+  onNewGame,
+}: FinalResultsProps) {
+  const rest = standings.filter((standing) => standing.rank > 3);
+  const winningTeams = teamStandings.filter((standing) => standing.rank === 1);
+
+  return (
+    <Card className="shadow-sm border">
+      <CardContent className="p-6">
+        <div className="text-center mb-6">
+          <div className="text-5xl mb-4">🎉</div>
+          <h2 className="text-2xl font-bold">המשחק הסתיים!</h2>
+          {winningTeams.length > 0 && (
+            <p
+              data-testid="text-winning-team"
+              className="text-xl font-bold text-party-primary mt-2"
+            >
+              🏆 {winningTeams.map((standing) => standing.name).join(", ")}
+            </p>
+          )}
+        </div>
+
+        {teamStandings.length > 0 && (
+          <div className="mb-6">
+            <TeamStandings standings={teamStandings} myTeam={myTeam} />
+          </div>
+        )}
+
+        {/* Podium - tied players share a step */}
+        <div className="flex items-end justify-center gap-3 mb-6">
+          {podiumSteps.map(({ rank, height, color }) => {
+            const onStep = standings.filter((s) => s.rank === rank);
+            if (onStep.length === 0) return null;
+            return (
+              <div
+                key={rank}
+                data-testid={`podium-rank-${rank}`}
+                className="flex flex-col items-center flex-1 max-w-[8rem]"
+              >
+                {onStep.map((standing) => (
+                  <div
+                    key={standing.id}
+                    className={`text-center font-bold text-base break-words ${
+                      standing.id === playerId ? "text-party-secondary" : ""
+                    }`}
+                  >
+                    {standing.name}
+                    {standing.id === playerId && " 👤"}
+                  </div>
+                ))}
+                <div className="text-sm text-orange-600 font-bold mb-1">
+                  {onStep[0].score} נק'
+                </div>
+                <div
+                  className={`w-full ${height} ${color} rounded-t-lg flex items-start justify-center pt-2 text-3xl`}
+                >
+                  {rankMedal(rank)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {awards.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+            {awards.map((award) => (
+              <div
+                key={award.kind}
+                data-testid={`award-${award.kind}`}
+                className="rounded-xl border bg-muted px-4 py-3 text-center"
+              >
+                <div className="font-bold text-lg mb-1">
+                  {awardLabels[award.kind].title}
+                </div>
+                <div className="font-bold">
+                  {award.winners.map((winner) => winner.name).join(", ")}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {award.value} {awardLabels[award.kind].unit}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {rest.length > 0 && (
+          <div className="flex flex-col gap-2 mb-6">
+            {rest.map((standing) => (
+              <div
+                key={standing.id}
+                data-testid={`text-standing-${standing.id}`}
+                className={`flex items-center justify-between rounded-lg px-4 py-2 border ${
+                  standing.id === playerId
+                    ? "bg-party-secondary/10 border-party-secondary/50"
+                    : ""
+                }`}
+              >
+                <span className="font-medium">
+                  {rankMedal(standing.rank)} {standing.name}
+                </span>
+                <span className="font-bold text-orange-600">
+                  {standing.score} נק'
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {onNewGame && (
+          <div className="text-center">
+            <Button
+              data-testid="button-new-game"
+              onClick={onNewGame}
+              className="bg-party-primary hover:bg-indigo-600 text-base px-8 py-4 h-auto"
+            >
+              משחק חדש
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
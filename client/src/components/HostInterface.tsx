@@ -1,21 +1,56 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Countdown } from "@/components/Countdown";
+import { FinalResults, rankMedal } from "@/components/FinalResults";
+import { RoomSettingsPanel } from "@/components/RoomSettingsPanel";
+import { PlayerControls } from "@/components/PlayerControls";
+import { PackPicker } from "@/components/PackPicker";
+import { MediaView } from "@/components/MediaView";
+import { TeamStandings } from "@/components/TeamStandings";
+import { SavePackDialog } from "@/components/SavePackDialog";
+import { QuestionPreview } from "@/components/QuestionPreview";
+import { QuestionFileActions } from "@/components/QuestionFileActions";
+import {
+  QuestionEditor,
+  questionEditorSchema,
+  toEditorValues,
+  fromEditorValues,
+  type QuestionEditorValues,
+} from "@/components/QuestionEditor";
 import { useToast } from "@/hooks/use-toast";
+import { hasTeamAnswered } from "@/lib/teams";
 import type { GameState } from "@/hooks/useSocket";
+import {
+  roomSettingsSchema,
+  type Question,
+  type RoomSettings,
+} from "@shared/schema";
+import {
+  formatQuestionFile,
+  parseQuestionText,
+  toQuestions,
+} from "@shared/questionFile";
 import { defaultQuestions } from "@/defaultQuestions";
 
 interface HostInterfaceProps {
   gameState: GameState;
   onCreateRoom: (
-    questions: Array<{
-      question: string;
-      correctAnswer: string;
-      imageUrl?: string;
-    }>
+    questions: Question[],
+    packIds: string[],
+    settings: RoomSettings
   ) => void;
   onHostAction: (action: "start" | "show_voting" | "reveal" | "next") => void;
+  onTransferHost: (playerId: string) => void;
+  onStrikeLie: (playerId: string) => void;
+  onKickPlayer: (playerId: string) => void;
+  onBanPlayer: (playerId: string) => void;
+  onRenamePlayer: (playerId: string, name: string) => void;
   onNewGame: () => void;
 }
 
@@ -23,62 +58,107 @@ export function HostInterface({
   gameState,
   onCreateRoom,
   onHostAction,
+  onTransferHost,
+  onStrikeLie,
+  onKickPlayer,
+  onBanPlayer,
+  onRenamePlayer,
   onNewGame,
 }: HostInterfaceProps) {
   const [questionsText, setQuestionsText] = useState(defaultQuestions);
+  const [questionSource, setQuestionSource] = useState<"text" | "packs">(
+    "text"
+  );
+  const [questionView, setQuestionView] = useState<"text" | "editor">("text");
+  const editorForm = useForm<QuestionEditorValues>({
+    resolver: zodResolver(questionEditorSchema),
+    defaultValues: { questions: [] },
+  });
+  const [selectedPacks, setSelectedPacks] = useState<string[]>([]);
+  // Questions about to be saved as a pack, while the dialog is open
+  const [packDraft, setPackDraft] = useState<Question[] | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const settingsForm = useForm<RoomSettings>({
+    resolver: zodResolver(roomSettingsSchema),
+    defaultValues: roomSettingsSchema.parse({}),
+  });
   const { toast } = useToast();
 
-  const extractImageUrl = (
-    text: string
-  ): { text: string; imageUrl: string | null } => {
-    console.log("Extracting image URL from text:", text);
-    console.log("Text type:", typeof text);
-    const match = text.match(/\[(.*?)\]/);
-    if (match && match[1]) {
-      const imageUrl = match[1].trim();
-      const cleanText = text.replace(/\[.*?\]/, "").trim();
-      console.log("Found image URL:", { imageUrl, cleanText });
-      return { text: cleanText, imageUrl };
+  const parsed = useMemo(
+    () => parseQuestionText(questionsText),
+    [questionsText]
+  );
+  const parseErrors = parsed.issues.filter(
+    (issue) => issue.severity === "error"
+  ).length;
+
+  // The questions in whichever view is open, or null once the host has been
+  // told what to fix
+  const readQuestions = async (): Promise<Question[] | null> => {
+    if (questionView === "editor") {
+      if (!(await editorForm.trigger())) {
+        toast({
+          title: "שגיאה",
+          description: "יש לתקן את השאלות המסומנות",
+          variant: "destructive",
+        });
+        return null;
+      }
+      return fromEditorValues(editorForm.getValues());
     }
-    console.log("No image URL found in text");
-    return { text, imageUrl: null };
+
+    if (parseErrors > 0) {
+      toast({
+        title: "שגיאה",
+        description: `יש לתקן ${parseErrors} שגיאות ברשימת השאלות`,
+        variant: "destructive",
+      });
+      return null;
+    }
+    return toQuestions(parsed.questions);
   };
 
-  const handleCreateRoom = () => {
-    console.log("Raw questions text:", questionsText);
-    console.log("Creating room with questions text:", questionsText);
-    const lines = questionsText
-      .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0);
-    console.log("Parsed lines:", lines);
-    const questions: Array<{
-      question: string;
-      correctAnswer: string;
-      imageUrl?: string;
-    }> = [];
-
-    for (let i = 0; i < lines.length; i += 2) {
-      const question = lines[i];
-      const answer = lines[i + 1];
-      console.log(`Processing Q&A pair ${i / 2 + 1}:`, { question, answer });
-
-      if (question && answer) {
-        const { text: cleanAnswer, imageUrl } = extractImageUrl(answer);
-        console.log("Extracted image URL result:", { cleanAnswer, imageUrl });
-        const questionData = {
-          question,
-          correctAnswer: cleanAnswer,
-          ...(imageUrl && { imageUrl }),
-        };
-        console.log(
-          "Created question data:",
-          JSON.stringify(questionData, null, 2)
-        );
-        questions.push(questionData);
+  // Both views hold the same questions, so a switch converts instead of resetting
+  const switchQuestionView = async (view: "text" | "editor") => {
+    if (view === questionView) return;
+
+    if (view === "text" && editorForm.getValues("questions").length === 0) {
+      setQuestionsText("");
+    } else {
+      const questions = await readQuestions();
+      if (!questions) return;
+
+      if (view === "editor") {
+        editorForm.reset(toEditorValues(questions));
+      } else {
+        setQuestionsText(formatQuestionFile(questions, "text"));
+      }
+    }
+    setQuestionView(view);
+  };
+
+  const currentQuestions = (): Question[] =>
+    questionView === "editor"
+      ? fromEditorValues(editorForm.getValues())
+      : toQuestions(parsed.questions);
+
+  const handleCreateRoom = async (settings: RoomSettings) => {
+    if (questionSource === "packs") {
+      if (selectedPacks.length === 0) {
+        toast({
+          title: "שגיאה",
+          description: "בחרו לפחות חבילת שאלות אחת",
+          variant: "destructive",
+        });
+        return;
       }
+      onCreateRoom([], selectedPacks, settings);
+      return;
     }
 
+    const questions = await readQuestions();
+    if (!questions) return;
+
     if (questions.length === 0) {
       toast({
         title: "שגיאה",
@@ -97,7 +177,22 @@ export function HostInterface({
       return;
     }
 
-    onCreateRoom(questions);
+    onCreateRoom(questions, [], settings);
+  };
+
+  const openSavePack = async () => {
+    const questions = await readQuestions();
+    if (!questions) return;
+
+    if (questions.length === 0) {
+      toast({
+        title: "שגיאה",
+        description: "אנא הכנס לפחות זוג שאלה-תשובה אחד",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPackDraft(questions);
   };
 
   const copyRoomCode = () => {
@@ -116,22 +211,109 @@ export function HostInterface({
       <Card className="shadow-sm border">
         <CardContent className="p-6">
           <div className="flex flex-col items-center justify-center gap-6">
-            <div className="w-full">
-              <Textarea
-                id="questions"
-                data-testid="textarea-questions"
-                placeholder="שאלה 1&#10;תשובה 1&#10;שאלה 2&#10;תשובה 2 [https://example.com/image.jpg]&#10;שאלה 3&#10;תשובה 3"
-                value={questionsText}
-                onChange={(e) => setQuestionsText(e.target.value)}
-                className="h-64 resize-none font-mono text-base text-right flex items-center justify-end"
-                dir="rtl"
-              />
-            </div>
+            <Tabs
+              dir="rtl"
+              value={questionSource}
+              onValueChange={(value) =>
+                setQuestionSource(value as "text" | "packs")
+              }
+              className="w-full"
+            >
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger data-testid="tab-questions-text" value="text">
+                  ✍️ כתיבת שאלות
+                </TabsTrigger>
+                <TabsTrigger data-testid="tab-questions-packs" value="packs">
+                  📦 חבילות שמורות
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="text" className="space-y-2">
+                <ToggleGroup
+                  type="single"
+                  dir="rtl"
+                  value={questionView}
+                  onValueChange={(view) =>
+                    view && switchQuestionView(view as "text" | "editor")
+                  }
+                  className="justify-start"
+                >
+                  <ToggleGroupItem
+                    data-testid="toggle-questions-text"
+                    value="text"
+                  >
+                    📝 טקסט חופשי
+                  </ToggleGroupItem>
+                  <ToggleGroupItem
+                    data-testid="toggle-questions-editor"
+                    value="editor"
+                  >
+                    🗂️ שאלה אחרי שאלה
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                {questionView === "text" ? (
+                  <>
+                    <Textarea
+                      id="questions"
+                      data-testid="textarea-questions"
+                      placeholder="שאלה 1&#10;תשובה 1&#10;שאלה 2&#10;תשובה 2 [https://example.com/image.jpg]&#10;שאלה 3&#10;תשובה 3 | עוד צורה של התשובה"
+                      value={questionsText}
+                      onChange={(e) => setQuestionsText(e.target.value)}
+                      className="h-64 resize-none font-mono text-base text-right flex items-center justify-end"
+                      dir="rtl"
+                    />
+                    <QuestionPreview result={parsed} />
+                  </>
+                ) : (
+                  <QuestionEditor form={editorForm} />
+                )}
+                <QuestionFileActions
+                  getQuestions={currentQuestions}
+                  onImport={(text) => {
+                    // Imports land in the text view, where the preview flags problems
+                    setQuestionsText(text);
+                    setQuestionView("text");
+                  }}
+                />
+                <Button
+                  data-testid="button-save-pack"
+                  variant="outline"
+                  onClick={openSavePack}
+                  className="w-full"
+                >
+                  💾 שמור כחבילה
+                </Button>
+                <SavePackDialog
+                  open={packDraft !== null}
+                  onOpenChange={(open) => !open && setPackDraft(null)}
+                  questions={packDraft ?? []}
+                />
+              </TabsContent>
+              <TabsContent value="packs">
+                <PackPicker
+                  selected={selectedPacks}
+                  onSelectedChange={setSelectedPacks}
+                />
+              </TabsContent>
+            </Tabs>
+
+            <RoomSettingsPanel
+              form={settingsForm}
+              open={settingsOpen}
+              onOpenChange={setSettingsOpen}
+            />
 
             <div className="w-full">
               <Button
                 data-testid="button-create-room"
-                onClick={handleCreateRoom}
+                onClick={settingsForm.handleSubmit(handleCreateRoom, () => {
+                  // Open the panel so the invalid fields are visible
+                  setSettingsOpen(true);
+                  toast({
+                    title: "שגיאה",
+                    description: "יש לתקן את ההגדרות",
+                    variant: "destructive",
+                  });
+                })}
                 className="w-full bg-party-primary hover:bg-indigo-600 text-xl px-12 py-6 h-auto font-bold"
               >
                 צור חדר
@@ -146,22 +328,12 @@ export function HostInterface({
   // Game over state
   if (gameState.gamePhase === "complete") {
     return (
-      <Card className="shadow-sm border">
-        <CardContent className="p-6 text-center">
-          <div className="text-6xl mb-4">🎉</div>
-          <h2 className="text-2xl font-bold mb-3">המשחק הסתיים!</h2>
-          <p className="text-muted-foreground mb-6 text-base">
-            תודה ששיחקתם יחד!
-          </p>
-          <Button
-            data-testid="button-new-game"
-            onClick={onNewGame}
-            className="bg-party-primary hover:bg-indigo-600 text-base px-8 py-4 h-auto"
-          >
-            משחק חדש
-          </Button>
-        </CardContent>
-      </Card>
+      <FinalResults
+        standings={gameState.leaderboard}
+        teamStandings={gameState.teamLeaderboard}
+        awards={gameState.awards}
+        onNewGame={onNewGame}
+      />
     );
   }
 
@@ -186,8 +358,21 @@ export function HostInterface({
               >
                 📋
               </button>
+              {/* The big screen shows the game; this one stays the remote */}
+              <a
+                data-testid="link-display"
+                href={`/display/${gameState.roomCode}`}
+                target="_blank"
+                rel="noreferrer"
+                className="text-muted-foreground hover:text-foreground transition-colors text-xl mr-3"
+                title="פתח מסך תצוגה לטלוויזיה"
+              >
+                📺
+              </a>
             </div>
 
+            <Countdown deadline={gameState.deadline} />
+
             {/* Game Controls */}
             <div className="flex gap-4 w-full">
               {gameState.gamePhase === "waiting" && (
@@ -210,12 +395,57 @@ export function HostInterface({
                 </Button>
               )}
 
+              {gameState.gamePhase === "reviewing" && (
+                <div className="flex-1 flex flex-col gap-3">
+                  <h3 className="font-bold text-center text-xl">
+                    🛡️ בדיקת שקרים
+                  </h3>
+                  {gameState.reviewLies.length === 0 && (
+                    <p className="text-center text-muted-foreground">
+                      אין תשובות לבדיקה
+                    </p>
+                  )}
+                  {gameState.reviewLies.map((lie, index) => (
+                    <div
+                      key={lie.playerId}
+                      data-testid={`review-lie-${index}`}
+                      className="flex items-center justify-between gap-3 bg-muted rounded-xl px-4 py-3"
+                    >
+                      <div className="flex flex-col">
+                        <span className="font-bold text-lg">{lie.answer}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {lie.name}
+                        </span>
+                      </div>
+                      <Button
+                        data-testid={`button-strike-lie-${index}`}
+                        variant="outline"
+                        onClick={() => onStrikeLie(lie.playerId)}
+                        className="text-red-600"
+                      >
+                        🚫 פסול
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    data-testid="button-approve-lies"
+                    onClick={() => onHostAction("show_voting")}
+                    className="w-full bg-party-accent hover:bg-amber-500 text-xl px-8 py-6 h-auto font-bold"
+                  >
+                    אישור והצבעה
+                  </Button>
+                </div>
+              )}
+
               {gameState.gamePhase === "voting" && (
                 <div className="flex-1 flex flex-col gap-3">
                   <div className="flex items-center justify-center gap-2 bg-muted rounded-lg py-2 px-4">
-                    <span className="text-lg font-bold text-muted-foreground">
-                      {gameState.votingOptions.length} /{" "}
-                      {gameState.players.length}
+                    <span
+                      data-testid="text-vote-count"
+                      className="text-lg font-bold text-muted-foreground"
+                    >
+                      {gameState.players.filter((p) => p.hasVoted).length} /{" "}
+                      {gameState.players.filter((p) => p.connected).length}
                     </span>
                     <span className="text-lg">🗳️</span>
                   </div>
@@ -250,6 +480,19 @@ export function HostInterface({
                   >
                     {gameState.currentQuestion}
                   </p>
+                  {gameState.questionMedia &&
+                    (gameState.gamePhase === "question" ||
+                      gameState.gamePhase === "reviewing") && (
+                      <div className="mb-6 flex justify-center">
+                        <MediaView
+                          key={gameState.questionMedia.url}
+                          media={gameState.questionMedia}
+                          autoPlay
+                          className="max-h-[60vh]"
+                          testId="question-media"
+                        />
+                      </div>
+                    )}
                   <div className="text-center text-2xl text-muted-foreground font-bold">
                     <span data-testid="text-question-number">
                       {gameState.questionIndex}
@@ -271,20 +514,71 @@ export function HostInterface({
         <Card className="shadow-sm border">
           <CardContent className="p-6">
             <div className="flex flex-col items-center justify-center gap-3 w-full">
-              {gameState.players.map((playerName, index) => (
+              {gameState.audienceSize > 0 && (
+                <span
+                  data-testid="text-audience-size"
+                  className="text-lg font-bold text-muted-foreground"
+                >
+                  👀 {gameState.audienceSize} בקהל
+                </span>
+              )}
+              {gameState.players.map((player, index) => (
                 <div
-                  key={index}
-                  className="flex items-center justify-center bg-muted rounded-xl px-4 py-3 w-full gap-2"
+                  key={player.id}
+                  className={`flex items-center justify-center bg-muted rounded-xl px-4 py-3 w-full gap-2 ${
+                    player.connected ? "" : "opacity-50"
+                  }`}
                 >
-                  <div className="w-10 h-10 bg-party-secondary rounded-full flex items-center justify-center text-white text-base font-bold mr-3">
-                    {playerName.charAt(0).toUpperCase()}
+                  <div
+                    className={`w-10 h-10 rounded-full flex items-center justify-center text-white text-base font-bold mr-3 ${
+                      player.connected ? "bg-party-secondary" : "bg-gray-400"
+                    }`}
+                  >
+                    {player.name.charAt(0).toUpperCase()}
                   </div>
                   <span
                     data-testid={`text-player-name-${index}`}
                     className="font-bold text-lg flex items-center"
                   >
-                    {playerName}
+                    {player.name}
                   </span>
+                  {player.team !== null &&
+                    gameState.settings?.teams[player.team] && (
+                      <span
+                        data-testid={`text-player-team-${index}`}
+                        className="rounded-full bg-party-primary/10 px-3 py-1 text-sm font-bold text-party-primary"
+                      >
+                        {gameState.settings.teams[player.team]}
+                      </span>
+                    )}
+                  {(((gameState.gamePhase === "question" ||
+                    gameState.gamePhase === "reviewing") &&
+                    hasTeamAnswered(gameState.players, player)) ||
+                    (gameState.gamePhase === "voting" && player.hasVoted)) && (
+                    <span
+                      data-testid={`status-player-done-${index}`}
+                      className="text-lg"
+                    >
+                      ✅
+                    </span>
+                  )}
+                  {!player.connected && (
+                    <span
+                      data-testid={`status-player-offline-${index}`}
+                      className="text-lg"
+                      title="מנותק"
+                    >
+                      📴
+                    </span>
+                  )}
+                  <PlayerControls
+                    player={player}
+                    index={index}
+                    onTransferHost={onTransferHost}
+                    onKick={onKickPlayer}
+                    onBan={onBanPlayer}
+                    onRename={onRenamePlayer}
+                  />
                 </div>
               ))}
             </div>
@@ -306,48 +600,31 @@ export function HostInterface({
                   >
                     {gameState.correctAnswer}
                   </p>
-                  {(() => {
-                    console.log(
-                      "Rendering image section with gameState:",
-                      JSON.stringify(
-                        {
-                          imageUrl: gameState.imageUrl,
-                          gamePhase: gameState.gamePhase,
-                          correctAnswer: gameState.correctAnswer,
-                        },
-                        null,
-                        2
-                      )
-                    );
-                    return gameState.imageUrl ? (
-                      <div className="mt-4 flex justify-center">
-                        <img
-                          src={gameState.imageUrl}
-                          alt="Answer illustration"
-                          className="max-w-full h-auto rounded-lg shadow-sm max-h-[1000px] object-contain"
-                          data-testid="answer-image"
-                          onError={(e) => {
-                            console.error(
-                              "Image failed to load:",
-                              gameState.imageUrl
-                            );
-                            e.currentTarget.style.display = "none";
-                          }}
-                        />
-                      </div>
-                    ) : (
-                      <div className="mt-4 text-muted-foreground">
-                        {/* Debug info */}
-                        {process.env.NODE_ENV === "development" && (
-                          <p className="text-sm">
-                            No image URL available in gameState
-                            (gameState.imageUrl is{" "}
-                            {JSON.stringify(gameState.imageUrl)})
-                          </p>
-                        )}
-                      </div>
-                    );
-                  })()}
+                  {gameState.acceptedAnswers.length > 0 && (
+                    <p
+                      data-testid="text-accepted-answers"
+                      className="text-green-600 text-base mb-3"
+                    >
+                      או: {gameState.acceptedAnswers.join(", ")}
+                    </p>
+                  )}
+                  {gameState.answerMedia && (
+                    <div className="mt-4 flex justify-center">
+                      <MediaView
+                        key={gameState.answerMedia.url}
+                        media={gameState.answerMedia}
+                        autoPlay
+                        className="max-h-[1000px]"
+                        testId="answer-media"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {gameState.teamLeaderboard.length > 0 && (
+                <div className="mb-6">
+                  <TeamStandings standings={gameState.teamLeaderboard} />
                 </div>
               )}
 
@@ -355,12 +632,12 @@ export function HostInterface({
                 <div className="flex flex-col items-center justify-center gap-3 w-full">
                   {gameState.leaderboard.map((player, index) => (
                     <div
-                      key={index}
+                      key={player.id}
                       className="flex items-center justify-between bg-gradient-to-r from-yellow-50 to-orange-50 rounded-xl px-4 py-3 border border-yellow-200 w-full"
                     >
                       <div className="flex items-center gap-3">
                         <div className="text-2xl flex items-center justify-center">
-                          {index === 0 ? "🥇" : index === 1 ? "🥈" : "🥉"}
+                          {rankMedal(player.rank)}
                         </div>
                         <span
                           data-testid={`text-leaderboard-name-${index}`}
@@ -373,6 +650,11 @@ export function HostInterface({
                         data-testid={`text-leaderboard-score-${index}`}
                         className="text-xl font-bold text-orange-600 flex items-center"
                       >
+                        {player.gained > 0 && (
+                          <span className="text-base text-party-secondary ml-2">
+                            +{player.gained}
+                          </span>
+                        )}
                         {player.score}
                       </span>
                     </div>
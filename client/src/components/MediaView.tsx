@@ -0,0 +1,64 @@
+import { useState } from "react";
+import type { Media } from "@shared/schema";
+
+interface MediaViewProps {
+  media: Media;
+  autoPlay?: boolean;
+  className?: string;
+  testId?: string;
+}
+
+// Image, audio player or video player for a question's media. Key it by URL
+// so a new question's media doesn't inherit the last one's load error.
+export function MediaView({
+  media,
+  autoPlay = false,
+  className = "",
+  testId,
+}: MediaViewProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (failed) {
+    return (
+      <p className="text-center text-sm text-muted-foreground">
+        לא ניתן לטעון את המדיה
+      </p>
+    );
+  }
+
+  switch (media.type) {
+    case "audio":
+      return (
+        <audio
+          src={media.url}
+          controls
+          autoPlay={autoPlay}
+          onError={() => setFailed(true)}
+          className={`w-full ${className}`}
+          data-testid={testId}
+        />
+      );
+    case "video":
+      return (
+        <video
+          src={media.url}
+          controls
+          autoPlay={autoPlay}
+          playsInline
+          onError={() => setFailed(true)}
+          className={`max-w-full rounded-lg shadow-sm ${className}`}
+          data-testid={testId}
+        />
+      );
+    default:
+      return (
+        <img
+          src={media.url}
+          alt=""
+          onError={() => setFailed(true)}
+          className={`max-w-full h-auto rounded-lg shadow-sm object-contain ${className}`}
+          data-testid={testId}
+        />
+      );
+  }
+}
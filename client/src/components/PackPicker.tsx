@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { forgetPackToken, packToken, packTokenHeader } from "@/lib/packTokens";
+import type { QuestionPackSummary } from "@shared/schema";
+
+interface PackPickerProps {
+  selected: string[];
+  onSelectedChange: (packIds: string[]) => void;
+}
+
+// Saved packs to build a room from, in the order they were picked
+export function PackPicker({ selected, onSelectedChange }: PackPickerProps) {
+  const { toast } = useToast();
+  const [deleting, setDeleting] = useState<QuestionPackSummary | null>(null);
+  const { data: packs, isLoading } = useQuery<QuestionPackSummary[]>({
+    queryKey: ["/api/packs"],
+  });
+
+  const deletePack = useMutation({
+    mutationFn: (id: string) =>
+      apiRequest("DELETE", `/api/packs/${id}`, undefined, packTokenHeader(id)),
+    onSuccess: (_res, id) => {
+      forgetPackToken(id);
+      onSelectedChange(selected.filter((packId) => packId !== id));
+      queryClient.invalidateQueries({ queryKey: ["/api/packs"] });
+    },
+    onError: () => {
+      toast({
+        title: "שגיאה",
+        description: "מחיקת החבילה נכשלה",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    onSelectedChange(
+      checked ? [...selected, id] : selected.filter((packId) => packId !== id)
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center text-muted-foreground py-8">
+        טוען חבילות...
+      </div>
+    );
+  }
+
+  if (!packs || packs.length === 0) {
+    return (
+      <div className="text-center text-muted-foreground py-8">
+        אין עדיין חבילות שמורות. כתבו שאלות ושמרו אותן כחבילה.
+      </div>
+    );
+  }
+
+  const questionTotal = packs
+    .filter((pack) => selected.includes(pack.id))
+    .reduce((total, pack) => total + pack.questionCount, 0);
+
+  return (
+    <div className="space-y-2" dir="rtl">
+      {packs.map((pack) => (
+        <label
+          key={pack.id}
+          data-testid={`pack-${pack.id}`}
+          className="flex items-center gap-3 rounded-lg border px-4 py-3 cursor-pointer hover:bg-muted"
+        >
+          <Checkbox
+            data-testid={`checkbox-pack-${pack.id}`}
+            checked={selected.includes(pack.id)}
+            onCheckedChange={(checked) => toggle(pack.id, checked === true)}
+          />
+          <div className="flex-1 space-y-1">
+            <div className="font-bold">{pack.name}</div>
+            <div className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+              <span>{pack.questionCount} שאלות</span>
+              <Badge variant="outline">{pack.language}</Badge>
+              {pack.tags.map((tag) => (
+                <Badge key={tag} variant="secondary">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          {/* Only packs saved from this browser can be deleted from it */}
+          {packToken(pack.id) && (
+            <button
+              type="button"
+              data-testid={`button-delete-pack-${pack.id}`}
+              onClick={(e) => {
+                e.preventDefault();
+                setDeleting(pack);
+              }}
+              disabled={deletePack.isPending}
+              className="text-muted-foreground hover:text-red-600 transition-colors px-2"
+              title="מחק חבילה"
+            >
+              🗑️
+            </button>
+          )}
+        </label>
+      ))}
+      {selected.length > 0 && (
+        <div className="text-center text-sm text-muted-foreground">
+          נבחרו {selected.length} חבילות, {questionTotal} שאלות
+        </div>
+      )}
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+      >
+        {deleting && (
+          <AlertDialogContent dir="rtl">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-right">
+                למחוק את החבילה "{deleting.name}"?
+              </AlertDialogTitle>
+            </AlertDialogHeader>
+            <AlertDialogFooter className="gap-2">
+              <AlertDialogCancel>ביטול</AlertDialogCancel>
+              <AlertDialogAction
+                data-testid="button-confirm-delete-pack"
+                onClick={() => deletePack.mutate(deleting.id)}
+              >
+                מחק
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+    </div>
+  );
+}
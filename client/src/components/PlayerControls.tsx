@@ -0,0 +1,183 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { PlayerSummary } from "@shared/schema";
+
+interface PlayerControlsProps {
+  player: PlayerSummary;
+  index: number;
+  onTransferHost: (playerId: string) => void;
+  onKick: (playerId: string) => void;
+  onBan: (playerId: string) => void;
+  onRename: (playerId: string, name: string) => void;
+}
+
+type ConfirmAction = "transfer" | "kick" | "ban";
+
+// Host-only menu on a roster entry
+export function PlayerControls({
+  player,
+  index,
+  onTransferHost,
+  onKick,
+  onBan,
+  onRename,
+}: PlayerControlsProps) {
+  const [confirming, setConfirming] = useState<ConfirmAction | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const [newName, setNewName] = useState("");
+
+  const confirmations: Record<
+    ConfirmAction,
+    { title: string; description: string; action: string; run: () => void }
+  > = {
+    transfer: {
+      title: `להעביר את השליטה ל${player.name}?`,
+      description: "המכשיר הזה יפסיק לשלוט בחדר",
+      action: "העבר",
+      run: () => onTransferHost(player.id),
+    },
+    kick: {
+      title: `להוציא את ${player.name} מהחדר?`,
+      description: "הניקוד שלו יימחק, אבל הוא יוכל להצטרף שוב",
+      action: "הוצא",
+      run: () => onKick(player.id),
+    },
+    ban: {
+      title: `לחסום את ${player.name}?`,
+      description: "הוא יוצא מהחדר ולא יוכל להצטרף אליו שוב",
+      action: "חסום",
+      run: () => onBan(player.id),
+    },
+  };
+
+  const handleRename = () => {
+    const trimmed = newName.trim();
+    if (!trimmed) return;
+
+    onRename(player.id, trimmed);
+    setRenaming(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu dir="rtl">
+        <DropdownMenuTrigger asChild>
+          <button
+            data-testid={`button-player-controls-${index}`}
+            className="text-muted-foreground hover:text-foreground transition-colors text-lg mr-2 px-2"
+            title="ניהול שחקן"
+          >
+            ⋯
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {player.connected && (
+            <DropdownMenuItem
+              data-testid={`button-transfer-host-${index}`}
+              onSelect={() => setConfirming("transfer")}
+            >
+              👑 העבר שליטה
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            data-testid={`button-rename-player-${index}`}
+            onSelect={() => {
+              setNewName(player.name);
+              setRenaming(true);
+            }}
+          >
+            ✏️ שנה שם
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            data-testid={`button-kick-player-${index}`}
+            onSelect={() => setConfirming("kick")}
+          >
+            🚪 הוצא מהחדר
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            data-testid={`button-ban-player-${index}`}
+            onSelect={() => setConfirming("ban")}
+            className="text-red-600"
+          >
+            ⛔ חסום
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog
+        open={confirming !== null}
+        onOpenChange={(open) => !open && setConfirming(null)}
+      >
+        {confirming && (
+          <AlertDialogContent dir="rtl">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-right">
+                {confirmations[confirming].title}
+              </AlertDialogTitle>
+              <AlertDialogDescription className="text-right">
+                {confirmations[confirming].description}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter className="gap-2">
+              <AlertDialogCancel>ביטול</AlertDialogCancel>
+              <AlertDialogAction
+                data-testid={`button-confirm-${confirming}-${index}`}
+                onClick={confirmations[confirming].run}
+              >
+                {confirmations[confirming].action}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        )}
+      </AlertDialog>
+
+      <Dialog open={renaming} onOpenChange={setRenaming}>
+        <DialogContent dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">שינוי שם</DialogTitle>
+          </DialogHeader>
+          <Input
+            data-testid={`input-rename-player-${index}`}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleRename()}
+            maxLength={30}
+            className="text-center text-lg"
+          />
+          <DialogFooter className="gap-2">
+            <Button
+              data-testid={`button-confirm-rename-${index}`}
+              onClick={handleRename}
+            >
+              שמור
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
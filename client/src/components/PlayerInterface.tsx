@@ -5,12 +5,64 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import type { GameState } from "@/hooks/useSocket";
+import { Countdown } from "@/components/Countdown";
+import { FinalResults, rankMedal } from "@/components/FinalResults";
+import { MediaView } from "@/components/MediaView";
+import { TeamStandings } from "@/components/TeamStandings";
+import { mediaAt } from "@shared/media";
+import { isSameLie } from "@shared/answerMatch";
+import {
+  ROOM_CODE_ALPHABETS,
+  isValidRoomCode,
+  normalizeRoomCode,
+} from "@shared/roomCode";
+
+// Likes are a separate tap from the vote and can't be taken back
+function LikeButton({
+  liked,
+  onLike,
+  testId,
+}: {
+  liked: boolean;
+  onLike: () => void;
+  testId: string;
+}) {
+  return (
+    <button
+      type="button"
+      data-testid={testId}
+      onClick={onLike}
+      disabled={liked}
+      title="לייק"
+      className={`shrink-0 rounded-xl border px-4 text-2xl transition-colors ${
+        liked ? "bg-pink-100 border-pink-300" : "bg-white hover:bg-pink-50"
+      }`}
+    >
+      {liked ? "❤️" : "🤍"}
+    </button>
+  );
+}
+
+// Other forms of the truth, under the answer on the results card
+function AcceptedAnswers({ answers }: { answers: string[] }) {
+  if (answers.length === 0) return null;
+  return (
+    <p
+      data-testid="text-accepted-answers"
+      className="text-center text-base text-muted-foreground mt-1"
+    >
+      או: {answers.join(", ")}
+    </p>
+  );
+}
 
 interface PlayerInterfaceProps {
   gameState: GameState;
-  onJoinRoom: (code: string, name: string) => void;
+  onJoinRoom: (code: string, name: string, audience?: boolean) => void;
   onSubmitAnswer: (answer: string) => void;
   onVoteAnswer: (selectedAnswer: string) => void;
+  onChooseTeam: (team: number) => void;
+  onLikeAnswer: (answer: string) => void;
   onNewGame: () => void;
 }
 
@@ -19,27 +71,37 @@ export function PlayerInterface({
   onJoinRoom,
   onSubmitAnswer,
   onVoteAnswer,
+  onChooseTeam,
+  onLikeAnswer,
   onNewGame,
 }: PlayerInterfaceProps) {
   const [roomCode, setRoomCode] = useState("");
   const [playerName, setPlayerName] = useState("");
   const [answer, setAnswer] = useState("");
-  const [hasSubmitted, setHasSubmitted] = useState(false);
-  const [hasVoted, setHasVoted] = useState(false);
-  const [selectedVote, setSelectedVote] = useState<string | null>(null);
   const { toast } = useToast();
+  const hasSubmitted = gameState.myAnswer !== null;
+  const hasVoted = gameState.votedFor !== null;
+  const selectedVote = gameState.votedFor;
+  const teams = gameState.settings?.teams ?? [];
+  const isOwnLie = (answer: string) =>
+    gameState.myAnswer !== null && isSameLie(answer, gameState.myAnswer);
+  const isLiked = (answer: string) =>
+    gameState.likedAnswers.some((liked) => isSameLie(liked, answer));
+  const myTeam =
+    gameState.players.find((player) => player.id === gameState.playerId)
+      ?.team ?? null;
 
-  // Reset states when new question starts
+  // Reset the answer input when a new question starts
   useEffect(() => {
     if (gameState.gamePhase === "question") {
-      setHasSubmitted(false);
-      setHasVoted(false);
-      setSelectedVote(null);
       setAnswer(""); // Clear the answer input
     }
   }, [gameState.questionIndex, gameState.gamePhase]);
 
-  const handleJoinRoom = () => {
+  const codeFormat = gameState.roomCodeFormat;
+  const isDigitCode = codeFormat.alphabet === "digits";
+
+  const handleJoinRoom = (audience = false) => {
     if (!roomCode.trim() || !playerName.trim()) {
       toast({
         title: "שגיאה",
@@ -49,16 +111,18 @@ export function PlayerInterface({
       return;
     }
 
-    if (roomCode.length !== 4) {
+    if (!isValidRoomCode(roomCode, codeFormat)) {
       toast({
         title: "שגיאה",
-        description: "קוד חדר חייב להיות 4 ספרות",
+        description: `קוד חדר חייב להיות ${codeFormat.length} ${
+          isDigitCode ? "ספרות" : "אותיות"
+        }`,
         variant: "destructive",
       });
       return;
     }
 
-    onJoinRoom(roomCode, playerName.trim());
+    onJoinRoom(roomCode, playerName.trim(), audience);
   };
 
   const handleSubmitAnswer = () => {
@@ -104,33 +168,30 @@ export function PlayerInterface({
     }
 
     onSubmitAnswer(trimmedAnswer);
-    setHasSubmitted(true);
   };
 
+  const myLikes =
+    gameState.reveal.find((entry) => !entry.isCorrect && isOwnLie(entry.answer))
+      ?.likes ?? 0;
+
+  const pointsGained =
+    gameState.leaderboard.find((s) => s.id === gameState.playerId)?.gained ?? 0;
+
   const handleRoomCodeChange = (value: string) => {
-    const formatted = value.replace(/\D/g, "").substring(0, 4);
-    setRoomCode(formatted);
+    setRoomCode(normalizeRoomCode(value, codeFormat));
   };
 
   // Game over state
   if (gameState.gamePhase === "complete") {
     return (
-      <Card className="shadow-sm border">
-        <CardContent className="p-6 text-center">
-          <div className="text-5xl mb-4">🎉</div>
-          <h2 className="text-2xl font-bold mb-3">המשחק הסתיים!</h2>
-          <p className="text-muted-foreground mb-6 text-base">
-            תודה ששיחקתם יחד!
-          </p>
-          <Button
-            data-testid="button-new-game"
-            onClick={onNewGame}
-            className="bg-party-primary hover:bg-indigo-600 text-base px-8 py-4 h-auto"
-          >
-            משחק חדש
-          </Button>
-        </CardContent>
-      </Card>
+      <FinalResults
+        standings={gameState.leaderboard}
+        teamStandings={gameState.teamLeaderboard}
+        awards={gameState.awards}
+        myTeam={myTeam}
+        playerId={gameState.playerId}
+        onNewGame={onNewGame}
+      />
     );
   }
 
@@ -144,14 +205,19 @@ export function PlayerInterface({
               <Input
                 id="roomCode"
                 data-testid="input-room-code"
-                type="tel"
-                inputMode="numeric"
-                pattern="[0-9]*"
-                placeholder="1234"
+                type={isDigitCode ? "tel" : "text"}
+                inputMode={isDigitCode ? "numeric" : "text"}
+                pattern={isDigitCode ? "[0-9]*" : undefined}
+                autoCapitalize="characters"
+                autoComplete="off"
+                placeholder={(isDigitCode
+                  ? "1234567890"
+                  : ROOM_CODE_ALPHABETS.letters
+                ).slice(0, codeFormat.length)}
                 value={roomCode}
                 onChange={(e) => handleRoomCodeChange(e.target.value)}
                 className="text-center text-6xl font-mono tracking-widest h-28 flex items-center justify-center placeholder:text-gray-300"
-                maxLength={4}
+                maxLength={codeFormat.length}
                 style={{ fontSize: "3rem" }}
               />
             </div>
@@ -172,11 +238,19 @@ export function PlayerInterface({
 
             <Button
               data-testid="button-join-room"
-              onClick={handleJoinRoom}
+              onClick={() => handleJoinRoom()}
               className="w-full bg-party-secondary hover:bg-emerald-600 text-xl px-12 py-6 h-auto font-bold"
             >
               הצטרף
             </Button>
+            <Button
+              data-testid="button-join-audience"
+              variant="outline"
+              onClick={() => handleJoinRoom(true)}
+              className="w-full text-lg py-4 h-auto"
+            >
+              👀 הצטרף כקהל
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -196,6 +270,22 @@ export function PlayerInterface({
             >
               {gameState.playerName}
             </h3>
+            {gameState.isAudience && (
+              <span
+                data-testid="text-audience-badge"
+                className="rounded-full bg-muted px-4 py-1 text-base font-bold text-muted-foreground"
+              >
+                👀 קהל
+              </span>
+            )}
+            {myTeam !== null && teams[myTeam] && (
+              <span
+                data-testid="text-team-badge"
+                className="rounded-full bg-party-primary/10 px-4 py-1 text-base font-bold text-party-primary"
+              >
+                👥 {teams[myTeam]}
+              </span>
+            )}
             <div className="flex items-center justify-center gap-3 mt-2">
               <span
                 className="text-lg font-mono bg-muted rounded-lg px-4 py-2"
@@ -214,6 +304,41 @@ export function PlayerInterface({
         </CardContent>
       </Card>
 
+      {/* Team picker, until the game starts */}
+      {gameState.gamePhase === "waiting" &&
+        teams.length > 0 &&
+        !gameState.isAudience &&
+        !gameState.settings?.autoTeams && (
+          <Card className="shadow-sm border">
+            <CardContent className="p-6">
+              <h3 className="font-bold text-center text-xl mb-4">
+                👥 בחרו קבוצה
+              </h3>
+              <div className="grid grid-cols-2 gap-3">
+                {teams.map((team, index) => (
+                  <Button
+                    key={index}
+                    data-testid={`button-team-${index}`}
+                    variant={index === myTeam ? "default" : "outline"}
+                    onClick={() => onChooseTeam(index)}
+                    className="h-auto py-4 text-lg font-bold flex flex-col"
+                  >
+                    <span>{team}</span>
+                    <span className="text-sm font-normal">
+                      {
+                        gameState.players.filter(
+                          (player) => player.team === index
+                        ).length
+                      }{" "}
+                      שחקנים
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
       {/* Current Question */}
       {gameState.gamePhase === "question" && gameState.currentQuestion && (
         <Card className="shadow-sm border">
@@ -230,6 +355,8 @@ export function PlayerInterface({
               </div>
             </div>
 
+            <Countdown deadline={gameState.deadline} className="mb-4" />
+
             <div className="bg-gradient-to-r from-party-primary to-party-secondary rounded-lg p-4 mb-4">
               <p
                 data-testid="text-current-question"
@@ -239,8 +366,28 @@ export function PlayerInterface({
               </p>
             </div>
 
+            {gameState.questionMedia && gameState.settings?.mediaOnPhones && (
+              <div className="mb-4 flex justify-center">
+                <MediaView
+                  key={gameState.questionMedia.url}
+                  media={mediaAt(gameState.questionMedia, "medium")}
+                  className="max-h-64"
+                  testId="question-media"
+                />
+              </div>
+            )}
+
             {/* Answer Input */}
-            {!hasSubmitted ? (
+            {gameState.isAudience ? (
+              <div className="text-center">
+                <h3
+                  data-testid="text-audience-waiting"
+                  className="font-bold text-xl text-muted-foreground"
+                >
+                  👀 השחקנים כותבים שקרים, ההצבעה תכף מתחילה
+                </h3>
+              </div>
+            ) : !hasSubmitted ? (
               <div className="flex flex-col items-center justify-center gap-6">
                 <div className="w-full">
                   <div className="flex items-center justify-center h-40">
@@ -284,7 +431,11 @@ export function PlayerInterface({
               </div>
             ) : (
               <div className="text-center">
-                <h3 className="font-bold text-xl">✅ התשובה נשלחה</h3>
+                <h3 className="font-bold text-xl">
+                  {myTeam !== null
+                    ? `✅ השקר של הקבוצה: ${gameState.myAnswer}`
+                    : "✅ התשובה נשלחה"}
+                </h3>
               </div>
             )}
           </CardContent>
@@ -312,24 +463,40 @@ export function PlayerInterface({
                   </p>
                 </div>
 
-                <h3 className="font-bold text-center text-xl">🗳️ בחר תשובה</h3>
+                <Countdown deadline={gameState.deadline} className="mb-4" />
+
+                <h3 className="font-bold text-center text-xl">
+                  {gameState.isAudience
+                    ? "👀 מה נכון? או איזה שקר הכי אהבתם?"
+                    : "🗳️ בחר תשובה"}
+                </h3>
               </div>
 
               <div className="flex flex-col items-center justify-center gap-3 w-full">
-                {gameState.votingOptions.map((option, index) => (
-                  <button
-                    key={index}
-                    data-testid={`button-vote-option-${index}`}
-                    onClick={() => {
-                      onVoteAnswer(option.answer);
-                      setHasVoted(true);
-                      setSelectedVote(option.answer);
-                    }}
-                    className="w-full p-6 text-center bg-muted hover:bg-party-secondary hover:text-primary-foreground border rounded-xl transition-colors duration-200 text-base font-medium flex items-center justify-center"
-                  >
-                    {option.answer}
-                  </button>
-                ))}
+                {gameState.votingOptions.map((option, index) => {
+                  const ownLie = isOwnLie(option.answer);
+                  // Your own lie is shown but can't be picked
+                  const blocked = ownLie && !gameState.settings?.allowSelfVote;
+                  return (
+                    <div key={index} className="flex w-full gap-2">
+                      <button
+                        data-testid={`button-vote-option-${index}`}
+                        onClick={() => onVoteAnswer(option.answer)}
+                        disabled={blocked}
+                        className="flex-1 p-6 text-center bg-muted hover:bg-party-secondary hover:text-primary-foreground border rounded-xl transition-colors duration-200 text-base font-medium flex items-center justify-center disabled:opacity-50 disabled:pointer-events-none"
+                      >
+                        {option.answer}
+                        {blocked && (
+                          <span className="text-sm text-muted-foreground mr-2">
+                            {myTeam !== null
+                              ? "(השקר של הקבוצה)"
+                              : "(השקר שלך)"}
+                          </span>
+                        )}
+                      </button>
+                    </div>
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
@@ -344,6 +511,34 @@ export function PlayerInterface({
             </div>
             <h3 className="font-bold mb-4 text-xl">🗳️ הצבעת!</h3>
             <p className="text-base text-muted-foreground">ממתין...</p>
+            {!gameState.isAudience && (
+              <div className="mt-6 flex flex-col gap-2">
+                <p className="font-bold text-lg">❤️ איזה שקר הצחיק אתכם?</p>
+                {gameState.votingOptions
+                  // Only once the vote is in, so a refused like can't point out
+                  // the truth; the refused ones drop out of the list
+                  .filter(
+                    (option) =>
+                      !isOwnLie(option.answer) &&
+                      !gameState.refusedLikes.includes(option.answer)
+                  )
+                  .map((option, index) => (
+                    <div
+                      key={option.answer}
+                      className="flex items-center gap-2 rounded-xl border bg-muted"
+                    >
+                      <span className="flex-1 p-4 text-base font-medium">
+                        {option.answer}
+                      </span>
+                      <LikeButton
+                        liked={isLiked(option.answer)}
+                        onLike={() => onLikeAnswer(option.answer)}
+                        testId={`button-like-lie-${index}`}
+                      />
+                    </div>
+                  ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -368,9 +563,12 @@ export function PlayerInterface({
                     >
                       {gameState.correctAnswer}
                     </p>
-                    <p className="text-center text-green-600 font-bold mt-3 text-lg">
-                      🎉 +10 נקודות
-                    </p>
+                    <AcceptedAnswers answers={gameState.acceptedAnswers} />
+                    {!gameState.isAudience && (
+                      <p className="text-center text-green-600 font-bold mt-3 text-lg">
+                        🎉 +{pointsGained} נקודות
+                      </p>
+                    )}
                   </div>
                 ) : (
                   // Wrong answer display
@@ -393,20 +591,47 @@ export function PlayerInterface({
                       >
                         {gameState.correctAnswer}
                       </p>
+                      <AcceptedAnswers answers={gameState.acceptedAnswers} />
                     </div>
+                    {pointsGained > 0 && (
+                      <p
+                        data-testid="text-bluff-points"
+                        className="text-center text-party-secondary font-bold text-lg"
+                      >
+                        🤥 +{pointsGained} נקודות על השקר שלך
+                      </p>
+                    )}
                   </div>
                 ))}
 
+              {myLikes > 0 && (
+                <p
+                  data-testid="text-my-likes"
+                  className="mb-4 text-center text-pink-600 font-bold text-lg"
+                >
+                  ❤️ {myLikes} לייקים לשקר שלך
+                </p>
+              )}
+
+              {gameState.teamLeaderboard.length > 0 && (
+                <div className="mb-6">
+                  <h4 className="font-bold mb-4 text-center text-lg">👥</h4>
+                  <TeamStandings
+                    standings={gameState.teamLeaderboard}
+                    myTeam={myTeam}
+                  />
+                </div>
+              )}
+
               {gameState.leaderboard.length > 0 && (
                 <div>
                   <h4 className="font-bold mb-4 text-center text-lg">🏆</h4>
                   <div className="flex flex-col items-center justify-center gap-2 w-full">
                     {gameState.leaderboard.map((player, index) => {
-                      const isCurrentPlayer =
-                        player.name === gameState.playerName;
+                      const isCurrentPlayer = player.id === gameState.playerId;
                       return (
                         <div
-                          key={index}
+                          key={player.id}
                           className={`flex items-center justify-between rounded-lg px-4 py-3 border w-full ${
                             isCurrentPlayer
                               ? "bg-gradient-to-r from-party-secondary/20 to-party-secondary/10 border-party-secondary/50"
@@ -415,7 +640,7 @@ export function PlayerInterface({
                         >
                           <div className="flex items-center gap-3">
                             <div className="text-xl flex items-center justify-center">
-                              {index === 0 ? "🥇" : index === 1 ? "🥈" : "🥉"}
+                              {rankMedal(player.rank)}
                             </div>
                             <span
                               data-testid={`text-leaderboard-name-${index}`}
@@ -433,6 +658,11 @@ export function PlayerInterface({
                             data-testid={`text-leaderboard-score-${index}`}
                             className="text-lg font-bold text-orange-600 flex items-center"
                           >
+                            {player.gained > 0 && (
+                              <span className="text-sm text-party-secondary ml-2">
+                                +{player.gained}
+                              </span>
+                            )}
                             {player.score} נק'
                           </span>
                         </div>
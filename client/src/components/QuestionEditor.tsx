@@ -0,0 +1,466 @@
+import { useRef, useState } from "react";
+import { useFieldArray, type UseFormReturn } from "react-hook-form";
+import { z } from "zod";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  mediaSchema,
+  questionSchema,
+  type Media,
+  type MediaType,
+  type Question,
+} from "@shared/schema";
+import { imageVariantUrl, isWebUrl, mediaTypeOf } from "@shared/media";
+import { joinAnswers, splitAnswers } from "@shared/questionFile";
+import { useToast } from "@/hooks/use-toast";
+import { uploadImage } from "@/lib/uploadImage";
+
+const MAX_QUESTIONS = 100;
+
+// An empty URL means the question has no media in that slot
+const editorMediaSchema = mediaSchema.extend({
+  url: z
+    .string()
+    .trim()
+    .refine(
+      (url) => url === "" || isWebUrl(url),
+      "הקישור צריך להתחיל ב-http:// או https://"
+    ),
+});
+
+export const questionEditorSchema = z.object({
+  questions: z
+    .array(
+      questionSchema.extend({
+        question: z
+          .string()
+          .trim()
+          .min(1, "חסרה שאלה")
+          .max(1000, "השאלה ארוכה מדי (עד 1000 תווים)"),
+        correctAnswer: z
+          .string()
+          .trim()
+          .min(1, "חסרה תשובה")
+          .max(200, "התשובה ארוכה מדי (עד 200 תווים)"),
+        // "8 | eight", as in the text format, held to questionSchema's limits
+        acceptedAnswers: z.string().superRefine((text, ctx) => {
+          const answers = splitAnswers(text);
+          if (answers.length > 20) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: "עד 20 תשובות נוספות",
+            });
+          }
+          if (answers.some((answer) => answer.length > 200)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: "כל תשובה עד 200 תווים",
+            });
+          }
+        }),
+        questionMedia: editorMediaSchema,
+        answerMedia: editorMediaSchema,
+      })
+    )
+    .min(1, "הוסיפו לפחות שאלה אחת")
+    .max(MAX_QUESTIONS, `מקסימום ${MAX_QUESTIONS} שאלות`),
+});
+
+export type QuestionEditorValues = z.infer<typeof questionEditorSchema>;
+
+type EditorMedia = z.infer<typeof editorMediaSchema>;
+
+const noMedia: EditorMedia = { type: "image", url: "" };
+
+const fromEditorMedia = ({ type, url }: EditorMedia): Media | undefined =>
+  url.trim() ? { type, url: url.trim() } : undefined;
+
+export function toEditorValues(questions: Question[]): QuestionEditorValues {
+  return {
+    questions: questions.map((q) => ({
+      question: q.question,
+      correctAnswer: q.correctAnswer,
+      acceptedAnswers: joinAnswers(q.acceptedAnswers ?? []),
+      questionMedia: q.questionMedia ?? noMedia,
+      answerMedia: q.answerMedia ?? noMedia,
+    })),
+  };
+}
+
+export function fromEditorValues({
+  questions,
+}: QuestionEditorValues): Question[] {
+  return questions.map((q) => {
+    const questionMedia = fromEditorMedia(q.questionMedia);
+    const answerMedia = fromEditorMedia(q.answerMedia);
+    const acceptedAnswers = splitAnswers(q.acceptedAnswers);
+    return {
+      question: q.question.trim(),
+      correctAnswer: q.correctAnswer.trim(),
+      ...(acceptedAnswers.length > 0 && { acceptedAnswers }),
+      ...(questionMedia && { questionMedia }),
+      ...(answerMedia && { answerMedia }),
+    };
+  });
+}
+
+const emptyQuestion = {
+  question: "",
+  correctAnswer: "",
+  acceptedAnswers: "",
+  questionMedia: noMedia,
+  answerMedia: noMedia,
+};
+
+const mediaTypes: Array<{ value: MediaType; label: string }> = [
+  { value: "image", label: "🖼️ תמונה" },
+  { value: "audio", label: "🎵 שמע" },
+  { value: "video", label: "🎬 וידאו" },
+];
+
+// Disappears when the URL doesn't load, e.g. while it is half typed
+function Thumbnail({ url }: { url: string }) {
+  const [failed, setFailed] = useState(false);
+  if (!url || failed) return null;
+
+  return (
+    <img
+      src={imageVariantUrl(url, "thumb")}
+      alt=""
+      onError={() => setFailed(true)}
+      className="h-16 w-16 shrink-0 rounded border object-cover"
+    />
+  );
+}
+
+interface MediaFieldProps {
+  form: UseFormReturn<QuestionEditorValues>;
+  index: number;
+  slot: "questionMedia" | "answerMedia";
+  label: string;
+}
+
+// URL with the kind of media it is; the kind follows the file extension
+// unless picked by hand. An uploaded image fills in its URL on the server.
+function MediaField({ form, index, slot, label }: MediaFieldProps) {
+  const type = form.watch(`questions.${index}.${slot}.type`);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const { toast } = useToast();
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    try {
+      const image = await uploadImage(file);
+      form.setValue(
+        `questions.${index}.${slot}`,
+        { type: "image", url: image.url },
+        { shouldValidate: true }
+      );
+    } catch (error) {
+      toast({
+        title: "העלאת התמונה נכשלה",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <FormField
+      control={form.control}
+      name={`questions.${index}.${slot}.url`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="text-xs text-muted-foreground">
+            {label}
+          </FormLabel>
+          <div className="flex items-center gap-2">
+            <FormControl>
+              <Input
+                data-testid={`input-${slot}-${index}`}
+                placeholder="https://..."
+                dir="ltr"
+                {...field}
+                onChange={(e) => {
+                  field.onChange(e);
+                  form.setValue(
+                    `questions.${index}.${slot}.type`,
+                    mediaTypeOf(e.target.value)
+                  );
+                }}
+              />
+            </FormControl>
+            <Select
+              dir="rtl"
+              value={type}
+              onValueChange={(value) =>
+                form.setValue(
+                  `questions.${index}.${slot}.type`,
+                  value as MediaType
+                )
+              }
+            >
+              <SelectTrigger
+                data-testid={`select-${slot}-type-${index}`}
+                className="w-28 shrink-0"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {mediaTypes.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif"
+              className="hidden"
+              data-testid={`input-upload-${slot}-${index}`}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleUpload(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              data-testid={`button-upload-${slot}-${index}`}
+              onClick={() => fileInput.current?.click()}
+              disabled={uploading}
+              title="העלאת תמונה מהמחשב"
+              className="shrink-0"
+            >
+              {uploading ? "⏳" : "📁"}
+            </Button>
+            {type === "image" && (
+              <Thumbnail key={field.value} url={field.value} />
+            )}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface QuestionEditorProps {
+  form: UseFormReturn<QuestionEditorValues>;
+}
+
+// One card per question, in place of the raw text
+export function QuestionEditor({ form }: QuestionEditorProps) {
+  const { fields, append, insert, remove, move } = useFieldArray({
+    control: form.control,
+    name: "questions",
+  });
+  const listErrors = form.formState.errors.questions;
+  const listError = listErrors?.message ?? listErrors?.root?.message;
+  const dragIndex = useRef<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const duplicate = (index: number) => {
+    insert(index + 1, { ...form.getValues(`questions.${index}`) });
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex.current !== null && dragIndex.current !== index) {
+      move(dragIndex.current, index);
+    }
+    dragIndex.current = null;
+    setDropIndex(null);
+  };
+
+  return (
+    <Form {...form}>
+      <div className="space-y-3" dir="rtl">
+        {fields.map((field, index) => (
+          <div
+            key={field.id}
+            data-testid={`editor-question-${index}`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={(e) => {
+              // Otherwise Firefox opens the dragged text as a link
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            className={`rounded-lg border p-3 space-y-2 transition-colors ${
+              dropIndex === index ? "border-party-primary bg-muted" : ""
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                draggable
+                onDragStart={(e) => {
+                  dragIndex.current = index;
+                  // Firefox won't start a drag that carries no data
+                  e.dataTransfer.setData("text/plain", String(index));
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onDragEnd={() => {
+                  dragIndex.current = null;
+                  setDropIndex(null);
+                }}
+                data-testid={`drag-question-${index}`}
+                className="cursor-grab select-none text-muted-foreground px-1"
+                title="גררו כדי לשנות את הסדר"
+              >
+                ⠿
+              </span>
+              <span className="font-bold">שאלה {index + 1}</span>
+              <div className="mr-auto flex gap-1">
+                {/* Dragging doesn't work on touch screens, these do */}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  data-testid={`button-move-up-question-${index}`}
+                  onClick={() => move(index, index - 1)}
+                  disabled={index === 0}
+                  title="הזז למעלה"
+                >
+                  ⬆️
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  data-testid={`button-move-down-question-${index}`}
+                  onClick={() => move(index, index + 1)}
+                  disabled={index === fields.length - 1}
+                  title="הזז למטה"
+                >
+                  ⬇️
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  data-testid={`button-duplicate-question-${index}`}
+                  onClick={() => duplicate(index)}
+                  disabled={fields.length >= MAX_QUESTIONS}
+                  title="שכפל"
+                >
+                  📄
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  data-testid={`button-delete-question-${index}`}
+                  onClick={() => remove(index)}
+                  title="מחק"
+                >
+                  🗑️
+                </Button>
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name={`questions.${index}.question`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      data-testid={`input-question-${index}`}
+                      placeholder="השאלה"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`questions.${index}.correctAnswer`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      data-testid={`input-answer-${index}`}
+                      placeholder="התשובה הנכונה"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`questions.${index}.acceptedAnswers`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      data-testid={`input-accepted-answers-${index}`}
+                      placeholder="עוד תשובות נכונות, מופרדות ב-| (לא חובה; | בתוך תשובה נכתב \|)"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <MediaField
+              form={form}
+              index={index}
+              slot="questionMedia"
+              label="🎞️ מדיה לשאלה: תמונה, שמע או וידאו (לא חובה)"
+            />
+            <MediaField
+              form={form}
+              index={index}
+              slot="answerMedia"
+              label="🖼️ מדיה לתשובה, מוצגת בחשיפה (לא חובה)"
+            />
+          </div>
+        ))}
+
+        {listError && (
+          <p className="text-sm font-medium text-destructive">{listError}</p>
+        )}
+
+        <Button
+          type="button"
+          variant="outline"
+          data-testid="button-add-question"
+          onClick={() => append(emptyQuestion)}
+          disabled={fields.length >= MAX_QUESTIONS}
+          className="w-full"
+        >
+          ➕ הוסף שאלה
+        </Button>
+      </div>
+    </Form>
+  );
+}
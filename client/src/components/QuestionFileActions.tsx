@@ -0,0 +1,134 @@
+import { useRef } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  detectQuestionFormat,
+  formatQuestionFile,
+  parseQuestionFile,
+  type QuestionFileFormat,
+} from "@shared/questionFile";
+import type { Question } from "@shared/schema";
+
+interface QuestionFileActionsProps {
+  getQuestions: () => Question[];
+  onImport: (text: string) => void;
+}
+
+type ExportFormat = {
+  format: QuestionFileFormat;
+  label: string;
+  extension: string;
+  type: string;
+};
+
+const exportFormats: ExportFormat[] = [
+  { format: "text", label: "טקסט", extension: "txt", type: "text/plain" },
+  {
+    format: "json",
+    label: "JSON",
+    extension: "json",
+    type: "application/json",
+  },
+  { format: "csv", label: "CSV", extension: "csv", type: "text/csv" },
+];
+
+// Load questions from a text/JSON/CSV file into the editor, or save them out
+export function QuestionFileActions({
+  getQuestions,
+  onImport,
+}: QuestionFileActionsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File) => {
+    const content = await file.text();
+    const format = detectQuestionFormat(content, file.name);
+    if (format === "text") {
+      onImport(content);
+      return;
+    }
+
+    // JSON and CSV land in the editor as text, so the preview covers them too
+    const { questions: imported, issues } = parseQuestionFile(content, format);
+    const errors = issues.filter((issue) => issue.severity === "error");
+    if (errors.length > 0) {
+      toast({
+        title: `${errors.length} שגיאות בקובץ`,
+        description: errors
+          .slice(0, 3)
+          .map((error) => `שורה ${error.line}: ${error.message}`)
+          .join(" · "),
+        variant: "destructive",
+      });
+    }
+    if (imported.length > 0) {
+      onImport(formatQuestionFile(imported, "text"));
+    }
+  };
+
+  const handleExport = ({ format, extension, type }: ExportFormat) => {
+    const url = URL.createObjectURL(
+      new Blob([formatQuestionFile(getQuestions(), format)], { type })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `questions.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".txt,.json,.csv,text/plain,application/json,text/csv"
+        className="hidden"
+        data-testid="input-import-file"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = "";
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        data-testid="button-import-questions"
+        onClick={() => fileInput.current?.click()}
+        className="flex-1"
+      >
+        📂 ייבוא מקובץ
+      </Button>
+      <DropdownMenu dir="rtl">
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            data-testid="button-export-questions"
+            className="flex-1"
+          >
+            📤 ייצוא
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {exportFormats.map((option) => (
+            <DropdownMenuItem
+              key={option.format}
+              data-testid={`button-export-${option.format}`}
+              onSelect={() => handleExport(option)}
+            >
+              {option.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
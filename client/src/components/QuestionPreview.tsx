@@ -0,0 +1,87 @@
+import type { QuestionFileResult } from "@shared/questionFile";
+import type { MediaType } from "@shared/schema";
+
+const mediaIcons: Record<MediaType, string> = {
+  image: "🖼️",
+  audio: "🎵",
+  video: "🎬",
+};
+
+interface QuestionPreviewProps {
+  result: QuestionFileResult;
+}
+
+// Live view of what the typed questions parse into, problems first
+export function QuestionPreview({ result }: QuestionPreviewProps) {
+  const { questions, issues } = result;
+  const issueLines = new Set(issues.map((issue) => issue.line));
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+
+  return (
+    <div className="rounded-lg border text-right" dir="rtl">
+      <div className="flex items-center justify-between bg-muted px-4 py-2 text-sm font-bold">
+        <span data-testid="text-preview-count">{questions.length} שאלות</span>
+        {issues.length > 0 && (
+          <span
+            data-testid="text-preview-issues"
+            className={errorCount > 0 ? "text-red-600" : "text-amber-600"}
+          >
+            {errorCount > 0
+              ? `${errorCount} שגיאות`
+              : `${issues.length} אזהרות`}
+          </span>
+        )}
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1 border-b px-4 py-2 text-sm">
+          {issues
+            .slice()
+            .sort((a, b) => a.line - b.line)
+            .map((issue, index) => (
+              <li
+                key={index}
+                data-testid={`preview-issue-${index}`}
+                className={
+                  issue.severity === "error" ? "text-red-600" : "text-amber-600"
+                }
+              >
+                {issue.severity === "error" ? "❌" : "⚠️"} שורה {issue.line}:{" "}
+                {issue.message}
+              </li>
+            ))}
+        </ul>
+      )}
+
+      <ol className="max-h-64 overflow-y-auto divide-y text-sm">
+        {questions.map((q, index) => (
+          <li
+            key={`${q.line}-${index}`}
+            data-testid={`preview-question-${index}`}
+            className={`flex gap-3 px-4 py-2 ${
+              issueLines.has(q.line) ? "bg-amber-50" : ""
+            }`}
+          >
+            <span className="text-muted-foreground w-8 shrink-0">
+              {index + 1}.
+            </span>
+            <div className="flex-1 min-w-0">
+              <div className="font-medium break-words">
+                {q.question}
+                {q.questionMedia && ` ${mediaIcons[q.questionMedia.type]}`}
+              </div>
+              <div className="text-green-700 break-words">
+                ✓ {q.correctAnswer}
+                {q.acceptedAnswers && ` (או: ${q.acceptedAnswers.join(", ")})`}
+                {q.answerMedia && ` ${mediaIcons[q.answerMedia.type]}`}
+              </div>
+            </div>
+            <span className="text-muted-foreground text-xs shrink-0">
+              שורה {q.line}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+import type { UseFormReturn } from "react-hook-form";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { RoomSettings } from "@shared/schema";
+
+interface RoomSettingsPanelProps {
+  form: UseFormReturn<RoomSettings>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type NumberSetting =
+  | "correctPoints"
+  | "foolPoints"
+  | "likePoints"
+  | "questionSeconds"
+  | "votingSeconds"
+  | "maxPlayers"
+  | "audienceBonus";
+
+type ToggleSetting =
+  | "shuffleQuestions"
+  | "allowLateJoin"
+  | "allowSelfVote"
+  | "reviewLies"
+  | "mediaOnPhones"
+  | "allowAudience";
+
+const numberFields: Array<{
+  name: NumberSetting;
+  label: string;
+  description?: string;
+}> = [
+  { name: "correctPoints", label: "🎯 נקודות על תשובה נכונה" },
+  { name: "foolPoints", label: "🤥 נקודות לכל מי שנפל בשקר שלך" },
+  {
+    name: "likePoints",
+    label: "❤️ נקודות לכל לייק לשקר שלך",
+    description: "0 = לייקים רק לפרס אהוב הקהל",
+  },
+  {
+    name: "questionSeconds",
+    label: "⏱️ זמן לתשובה (שניות)",
+    description: "0 = ללא הגבלת זמן",
+  },
+  {
+    name: "votingSeconds",
+    label: "🗳️ זמן להצבעה (שניות)",
+    description: "0 = ללא הגבלת זמן",
+  },
+  {
+    name: "maxPlayers",
+    label: "👥 מקסימום שחקנים",
+    description: "מי שמצטרף אחרי שהחדר מלא נכנס לקהל",
+  },
+  {
+    name: "audienceBonus",
+    label: "👀 בונוס לשקר שהקהל הכי אהב",
+    description: "0 = ללא בונוס",
+  },
+];
+
+const toggleFields: Array<{ name: ToggleSetting; label: string }> = [
+  { name: "shuffleQuestions", label: "🔀 ערבב את סדר השאלות" },
+  { name: "allowLateJoin", label: "🚪 אפשר להצטרף באמצע המשחק" },
+  { name: "allowSelfVote", label: "🙋 אפשר להצביע לשקר של עצמך" },
+  { name: "reviewLies", label: "🛡️ לבדוק את השקרים לפני ההצבעה" },
+  { name: "mediaOnPhones", label: "📱 להציג את מדיית השאלה גם בטלפונים" },
+  { name: "allowAudience", label: "👀 לאפשר קהל שצופה ומצביע בלי לשחק" },
+];
+
+const contentFilterModes: Array<{
+  value: RoomSettings["contentFilter"];
+  label: string;
+}> = [
+  { value: "off", label: "כבוי" },
+  { value: "mask", label: "הסתר מילים גסות (***)" },
+  { value: "reject", label: "חסום ובקש ניסוח אחר" },
+];
+
+export function RoomSettingsPanel({
+  form,
+  open,
+  onOpenChange,
+}: RoomSettingsPanelProps) {
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange} className="w-full">
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          data-testid="button-toggle-settings"
+          className="w-full flex items-center justify-center gap-2 bg-muted rounded-lg py-3 font-bold text-lg"
+        >
+          ⚙️ הגדרות {open ? "▲" : "▼"}
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <Form {...form}>
+          <form
+            onSubmit={(e) => e.preventDefault()}
+            className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4"
+          >
+            {numberFields.map(({ name, label, description }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        data-testid={`input-setting-${name}`}
+                        type="number"
+                        min={0}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        className="text-center"
+                      />
+                    </FormControl>
+                    {description && (
+                      <FormDescription>{description}</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="maxQuestions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>❓ מספר שאלות במשחק</FormLabel>
+                  <FormControl>
+                    <Input
+                      data-testid="input-setting-maxQuestions"
+                      type="number"
+                      min={1}
+                      placeholder="הכל"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) =>
+                        field.onChange(
+                          e.target.value === "" ? null : e.target.valueAsNumber
+                        )
+                      }
+                      className="text-center"
+                    />
+                  </FormControl>
+                  <FormDescription>ריק = כל השאלות</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {toggleFields.map(({ name, label }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 rounded-lg border px-4 py-3 sm:col-span-2">
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Switch
+                        data-testid={`switch-setting-${name}`}
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <FormField
+              control={form.control}
+              name="contentFilter"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>🧼 מסנן תוכן לשמות ולתשובות</FormLabel>
+                  <Select
+                    dir="rtl"
+                    value={field.value}
+                    onValueChange={field.onChange}
+                  >
+                    <FormControl>
+                      <SelectTrigger data-testid="select-setting-contentFilter">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {contentFilterModes.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("contentFilter") !== "off" && (
+              <FormField
+                control={form.control}
+                name="blockedWords"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <FormLabel>🚫 מילים נוספות לחסימה</FormLabel>
+                    <FormControl>
+                      {/* Parsed on blur so typing a new line isn't swallowed */}
+                      <Textarea
+                        data-testid="textarea-setting-blockedWords"
+                        defaultValue={field.value.join("\n")}
+                        onBlur={(e) =>
+                          field.onChange(
+                            e.target.value
+                              .split(/[\n,]/)
+                              .map((word) => word.trim())
+                              .filter(Boolean)
+                          )
+                        }
+                        className="h-24 resize-none text-right"
+                        dir="rtl"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      מילה או ביטוי בכל שורה, בנוסף לרשימות המובנות
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="teams"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>👥 משחק בקבוצות</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      data-testid="textarea-setting-teams"
+                      defaultValue={field.value.join("\n")}
+                      onBlur={(e) =>
+                        field.onChange(
+                          e.target.value
+                            .split("\n")
+                            .map((team) => team.trim())
+                            .filter(Boolean)
+                        )
+                      }
+                      placeholder={"האדומים\nהכחולים"}
+                      className="h-24 resize-none text-right"
+                      dir="rtl"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    שם של קבוצה בכל שורה; כל קבוצה שולחת שקר אחד. ריק = כל אחד
+                    לעצמו
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("teams").length > 0 && (
+              <FormField
+                control={form.control}
+                name="autoTeams"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 rounded-lg border px-4 py-3 sm:col-span-2">
+                    <FormLabel>⚖️ לחלק לקבוצות אוטומטית</FormLabel>
+                    <FormControl>
+                      <Switch
+                        data-testid="switch-setting-autoTeams"
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+          </form>
+        </Form>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { savePackToken } from "@/lib/packTokens";
+import {
+  questionPackInputSchema,
+  type Question,
+  type QuestionPackInput,
+} from "@shared/schema";
+
+// apiRequest errors read "<status>: <body>"
+function saveErrorMessage(error: Error): string {
+  if (error.message.startsWith("413:")) {
+    return "החבילה גדולה מדי לשמירה, נסו לפצל אותה לכמה חבילות";
+  }
+  if (error.message.startsWith("400:")) {
+    return "חלק מהשאלות אינן תקינות או ארוכות מדי";
+  }
+  return "שמירת החבילה נכשלה";
+}
+
+interface SavePackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  questions: Question[];
+}
+
+// Stores the typed questions as a pack so they can be picked next game
+export function SavePackDialog({
+  open,
+  onOpenChange,
+  questions,
+}: SavePackDialogProps) {
+  const [name, setName] = useState("");
+  const [language, setLanguage] = useState("he");
+  const [tags, setTags] = useState("");
+  const { toast } = useToast();
+
+  const savePack = useMutation({
+    mutationFn: async (pack: QuestionPackInput) => {
+      const res = await apiRequest("POST", "/api/packs", pack);
+      return (await res.json()) as { id: string; ownerToken: string };
+    },
+    onSuccess: ({ id, ownerToken }) => {
+      savePackToken(id, ownerToken);
+      queryClient.invalidateQueries({ queryKey: ["/api/packs"] });
+      toast({ title: "נשמר!", description: `החבילה "${name}" נשמרה` });
+      setName("");
+      setTags("");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "שגיאה",
+        description: saveErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+
+    // Catch what the server would refuse before sending it all
+    if (!questionPackInputSchema.shape.questions.safeParse(questions).success) {
+      toast({
+        title: "שגיאה",
+        description:
+          questions.length > 500
+            ? "אפשר לשמור עד 500 שאלות בחבילה"
+            : "חלק מהשאלות אינן תקינות או ארוכות מדי",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    savePack.mutate({
+      name: name.trim(),
+      language,
+      tags: tags
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      questions,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">
+            שמירת {questions.length} שאלות כחבילה
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pack-name">שם החבילה</Label>
+            <Input
+              id="pack-name"
+              data-testid="input-pack-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pack-language">שפה</Label>
+            <Input
+              id="pack-language"
+              data-testid="input-pack-language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              maxLength={10}
+              placeholder="he"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pack-tags">תגיות (מופרדות בפסיק)</Label>
+            <Input
+              id="pack-tags"
+              data-testid="input-pack-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="סרטים, ילדים"
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button
+            data-testid="button-confirm-save-pack"
+            onClick={handleSave}
+            disabled={!name.trim() || savePack.isPending}
+          >
+            שמור
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import type { TeamStanding } from "@shared/schema";
+import { rankMedal } from "@/components/FinalResults";
+
+interface TeamStandingsProps {
+  standings: TeamStanding[];
+  myTeam?: number | null; // highlights the player's own team
+}
+
+// Team play scores: one row per team with its members underneath
+export function TeamStandings({ standings, myTeam }: TeamStandingsProps) {
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      {standings.map((standing) => (
+        <div
+          key={standing.team}
+          data-testid={`text-team-standing-${standing.team}`}
+          className={`rounded-lg px-4 py-3 border ${
+            standing.team === myTeam
+              ? "bg-party-secondary/10 border-party-secondary/50"
+              : "bg-gradient-to-r from-indigo-50 to-purple-50 border-indigo-200"
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-lg">
+              {rankMedal(standing.rank)} {standing.name}
+              {standing.team === myTeam && " 👥"}
+            </span>
+            <span className="text-lg font-bold text-orange-600">
+              {standing.gained > 0 && (
+                <span className="text-sm text-party-secondary ml-2">
+                  +{standing.gained}
+                </span>
+              )}
+              {standing.score} נק'
+            </span>
+          </div>
+          {standing.members.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {standing.members.join(", ")}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
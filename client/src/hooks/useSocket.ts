@@ -3,47 +3,152 @@ import { io, Socket } from "socket.io-client";
 import {
   type ServerToClientEvents,
   type ClientToServerEvents,
+  type PlayerSummary,
+  type RoomSettings,
+  type Standing,
+  type TeamStanding,
+  type Award,
+  type ReviewedLie,
+  type RevealedAnswer,
+  type Media,
+  type Question,
 } from "@shared/schema";
+import {
+  DEFAULT_ROOM_CODE_FORMAT,
+  type RoomCodeFormat,
+} from "@shared/roomCode";
 import { useToast } from "@/hooks/use-toast";
+import { clearPreloadedMedia, preloadMedia } from "@/lib/preloadMedia";
+import { mediaAt } from "@shared/media";
 
 type SocketType = Socket<ServerToClientEvents, ClientToServerEvents>;
 
+// Let a device whose socket dropped reclaim its seat (or host role) in the room
+const PLAYER_SESSION_KEY = "partyqs:player-session";
+const HOST_SESSION_KEY = "partyqs:host-session";
+const AUDIENCE_SESSION_KEY = "partyqs:audience-session";
+// Survives leaving a room, so a host's ban sticks to the device
+const DEVICE_ID_KEY = "partyqs:device-id";
+
+type PlayerSession = { code: string; playerToken: string };
+type HostSession = { code: string; hostToken: string };
+type AudienceSession = { code: string; name: string };
+
+function loadSession<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(
+  key: string,
+  session: PlayerSession | HostSession | AudienceSession
+) {
+  localStorage.setItem(key, JSON.stringify(session));
+}
+
+function getDeviceId() {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+function clearSessions() {
+  localStorage.removeItem(PLAYER_SESSION_KEY);
+  localStorage.removeItem(HOST_SESSION_KEY);
+  localStorage.removeItem(AUDIENCE_SESSION_KEY);
+}
+
+// Translate a server deadline onto this device's clock
+function toLocalDeadline(deadline: number | null, serverNow: number) {
+  return deadline === null ? null : deadline - serverNow + Date.now();
+}
+
 export interface GameState {
-  mode: "select" | "host" | "player";
+  mode: "select" | "host" | "player" | "display";
   roomCode: string | null;
   playerName: string | null;
+  playerId: string | null;
   isHost: boolean;
+  isAudience: boolean; // watching and voting without a seat
   currentQuestion: string | null;
   questionIndex: number;
   totalQuestions: number;
-  players: string[];
-  votingOptions: Array<{ answer: string; isCorrect?: boolean }>;
-  leaderboard: Array<{ name: string; score: number }>;
+  players: PlayerSummary[];
+  settings: RoomSettings | null;
+  votingOptions: Array<{ answer: string }>;
+  leaderboard: Standing[];
+  teamLeaderboard: TeamStanding[]; // empty outside team play
+  awards: Award[];
+  roundScores: Array<{ name: string; score: number; gained: number }>;
   correctAnswer: string | null;
-  imageUrl: string | null;
-  gamePhase: "waiting" | "question" | "voting" | "revealing" | "complete";
+  acceptedAnswers: string[]; // other forms of the truth, shown with it
+  reveal: RevealedAnswer[];
+  audienceVotes: Record<string, number>; // per voting option
+  audienceSize: number;
+  questionMedia: Media | null;
+  answerMedia: Media | null;
+  nextMedia: Media | null; // preloaded during the reveal
+  gamePhase:
+    "waiting" | "question" | "reviewing" | "voting" | "revealing" | "complete";
+  reviewLies: ReviewedLie[]; // host only, while reviewing
+  displayError: string | null; // display only: why no room is showing
+  myAnswer: string | null;
+  votedFor: string | null;
+  likedAnswers: string[]; // lies liked this round
+  refusedLikes: string[]; // options the server wouldn't take a like for
+  deadline: number | null;
   connected: boolean;
+  roomCodeFormat: RoomCodeFormat;
 }
 
-export function useSocket() {
+// With a room code, the hook drives a read-only display of that room instead
+// of a host or player seat
+export function useSocket(displayCode?: string) {
   const socketRef = useRef<SocketType | null>(null);
   const { toast } = useToast();
 
   const [gameState, setGameState] = useState<GameState>({
-    mode: "select",
+    mode: displayCode ? "display" : "select",
     roomCode: null,
     playerName: null,
+    playerId: null,
     isHost: false,
+    isAudience: false,
     currentQuestion: null,
     questionIndex: 0,
     totalQuestions: 0,
     players: [],
+    settings: null,
     votingOptions: [],
     leaderboard: [],
+    teamLeaderboard: [],
+    awards: [],
+    roundScores: [],
     correctAnswer: null,
-    imageUrl: null,
+    acceptedAnswers: [],
+    reveal: [],
+    audienceVotes: {},
+    audienceSize: 0,
+    questionMedia: null,
+    answerMedia: null,
+    nextMedia: null,
     gamePhase: "waiting",
+    reviewLies: [],
+    displayError: null,
+    myAnswer: null,
+    votedFor: null,
+    likedAnswers: [],
+    refusedLikes: [],
+    deadline: null,
     connected: false,
+    roomCodeFormat: DEFAULT_ROOM_CODE_FORMAT,
   });
 
   useEffect(() => {
@@ -56,6 +161,34 @@ export function useSocket() {
 
     socket.on("connect", () => {
       setGameState((prev) => ({ ...prev, connected: true }));
+
+      // A display has no seat; it just watches the room again
+      if (displayCode) {
+        socket.emit("display:join", { code: displayCode });
+        return;
+      }
+
+      // Every (re)connect gets a fresh socket id, so reclaim our seat
+      const hostSession = loadSession<HostSession>(HOST_SESSION_KEY);
+      const playerSession = loadSession<PlayerSession>(PLAYER_SESSION_KEY);
+      const audienceSession =
+        loadSession<AudienceSession>(AUDIENCE_SESSION_KEY);
+      if (hostSession) {
+        socket.emit("host:reclaim", hostSession);
+      } else if (playerSession) {
+        socket.emit("room:rejoin", playerSession);
+      } else if (audienceSession) {
+        // Spectators hold no seat, so they just join the audience again
+        socket.emit("room:join", {
+          ...audienceSession,
+          deviceId: getDeviceId(),
+          audience: true,
+        });
+      }
+    });
+
+    socket.on("server:config", (data: { roomCode: RoomCodeFormat }) => {
+      setGameState((prev) => ({ ...prev, roomCodeFormat: data.roomCode }));
     });
 
     socket.on("disconnect", () => {
@@ -67,7 +200,11 @@ export function useSocket() {
       });
     });
 
-    socket.on("room:created", (data: { code: string }) => {
+    socket.on("room:created", (data: { code: string; hostToken: string }) => {
+      saveSession(HOST_SESSION_KEY, {
+        code: data.code,
+        hostToken: data.hostToken,
+      });
       setGameState((prev) => ({
         ...prev,
         mode: "host",
@@ -81,21 +218,218 @@ export function useSocket() {
       });
     });
 
-    socket.on("room:joined", (data: { code: string; players: string[] }) => {
+    socket.on(
+      "room:joined",
+      (data: {
+        code: string;
+        players: PlayerSummary[];
+        playerId: string;
+        playerToken: string;
+        name: string;
+        settings: RoomSettings;
+      }) => {
+        saveSession(PLAYER_SESSION_KEY, {
+          code: data.code,
+          playerToken: data.playerToken,
+        });
+        setGameState((prev) => ({
+          ...prev,
+          mode: "player",
+          roomCode: data.code,
+          playerId: data.playerId,
+          playerName: data.name,
+          players: data.players,
+          settings: data.settings,
+          isHost: false,
+          isAudience: false,
+        }));
+        toast({
+          title: "הצטרפת לחדר!",
+          description: `מחובר לחדר ${data.code}`,
+        });
+      }
+    );
+
+    socket.on(
+      "room:rejoined",
+      (data: {
+        code: string;
+        playerId: string;
+        name: string;
+        players: PlayerSummary[];
+        settings: RoomSettings;
+        answer: string | null;
+        votedFor: string | null;
+        liked: string[];
+      }) => {
+        setGameState((prev) => ({
+          ...prev,
+          mode: "player",
+          roomCode: data.code,
+          playerName: data.name,
+          playerId: data.playerId,
+          players: data.players,
+          settings: data.settings,
+          isHost: false,
+          isAudience: false,
+          myAnswer: data.answer,
+          votedFor: data.votedFor,
+          likedAnswers: data.liked,
+          refusedLikes: [],
+        }));
+        toast({
+          title: "חזרת למשחק!",
+          description: `מחובר לחדר ${data.code}`,
+        });
+      }
+    );
+
+    socket.on("room:rejoin_failed", () => {
+      localStorage.removeItem(PLAYER_SESSION_KEY);
+      setGameState((prev) =>
+        prev.mode === "player"
+          ? { ...prev, roomCode: null, gamePhase: "waiting", players: [] }
+          : prev
+      );
+    });
+
+    socket.on(
+      "audience:joined",
+      (data: {
+        code: string;
+        name: string;
+        players: PlayerSummary[];
+        settings: RoomSettings;
+        overflow: boolean;
+      }) => {
+        saveSession(AUDIENCE_SESSION_KEY, { code: data.code, name: data.name });
+        setGameState((prev) => ({
+          ...prev,
+          mode: "player",
+          roomCode: data.code,
+          playerName: data.name,
+          playerId: null,
+          players: data.players,
+          settings: data.settings,
+          isHost: false,
+          isAudience: true,
+        }));
+        toast({
+          title: "הצטרפת לקהל! 👀",
+          description: data.overflow
+            ? "אין מקום פנוי במשחק, אבל אפשר לצפות ולהצביע"
+            : `צופה בחדר ${data.code}`,
+        });
+      }
+    );
+
+    socket.on(
+      "audience:votes",
+      (data: { votes: Record<string, number>; size: number }) => {
+        setGameState((prev) => ({
+          ...prev,
+          audienceVotes: data.votes,
+          audienceSize: data.size,
+        }));
+      }
+    );
+
+    socket.on(
+      "display:joined",
+      (data: {
+        code: string;
+        players: PlayerSummary[];
+        settings: RoomSettings;
+      }) => {
+        setGameState((prev) => ({
+          ...prev,
+          roomCode: data.code,
+          players: data.players,
+          settings: data.settings,
+          displayError: null,
+        }));
+      }
+    );
+
+    socket.on("display:join_failed", (data: { reason: string }) => {
       setGameState((prev) => ({
         ...prev,
-        mode: "player",
-        roomCode: data.code,
-        players: data.players,
+        roomCode: null,
+        displayError: data.reason,
+      }));
+    });
+
+    socket.on(
+      "host:reclaimed",
+      (data: { code: string; players: PlayerSummary[] }) => {
+        setGameState((prev) => ({
+          ...prev,
+          mode: "host",
+          roomCode: data.code,
+          players: data.players,
+          isHost: true,
+        }));
+        toast({
+          title: "חזרת לשליטה!",
+          description: `מארח את חדר ${data.code}`,
+        });
+      }
+    );
+
+    socket.on("host:reclaim_failed", () => {
+      localStorage.removeItem(HOST_SESSION_KEY);
+      setGameState((prev) =>
+        prev.mode === "host"
+          ? { ...prev, roomCode: null, gamePhase: "waiting", players: [] }
+          : prev
+      );
+    });
+
+    socket.on(
+      "host:granted",
+      (data: { code: string; hostToken: string; players: PlayerSummary[] }) => {
+        localStorage.removeItem(PLAYER_SESSION_KEY);
+        saveSession(HOST_SESSION_KEY, {
+          code: data.code,
+          hostToken: data.hostToken,
+        });
+        setGameState((prev) => ({
+          ...prev,
+          mode: "host",
+          roomCode: data.code,
+          players: data.players,
+          isHost: true,
+        }));
+        toast({
+          title: "אתה המארח עכשיו!",
+          description: `השליטה בחדר ${data.code} הועברה אליך`,
+        });
+      }
+    );
+
+    socket.on("host:revoked", () => {
+      clearSessions();
+      setGameState((prev) => ({
+        ...prev,
+        mode: "select",
+        roomCode: null,
         isHost: false,
+        gamePhase: "waiting",
+        currentQuestion: null,
+        votingOptions: [],
+        leaderboard: [],
+        teamLeaderboard: [],
+        awards: [],
+        correctAnswer: null,
+        players: [],
       }));
       toast({
-        title: "הצטרפת לחדר!",
-        description: `מחובר לחדר ${data.code}`,
+        title: "השליטה הועברה",
+        description: "מארח אחר שולט עכשיו בחדר",
       });
     });
 
-    socket.on("room:players", (players: string[]) => {
+    socket.on("room:players", (players: PlayerSummary[]) => {
       setGameState((prev) => ({ ...prev, players }));
     });
 
@@ -105,41 +439,48 @@ export function useSocket() {
         question: string;
         questionIndex: number;
         totalQuestions: number;
-        imageUrl?: string;
+        media?: Media;
+        deadline: number | null;
+        serverNow: number;
       }) => {
         console.log("Received question data:", JSON.stringify(data, null, 2));
-        console.log(
-          "Current gameState before update:",
-          JSON.stringify(
-            {
-              currentQuestion: gameState.currentQuestion,
-              imageUrl: gameState.imageUrl,
-              gamePhase: gameState.gamePhase,
-            },
-            null,
-            2
-          )
-        );
         setGameState((prev) => ({
           ...prev,
           currentQuestion: data.question,
           questionIndex: data.questionIndex,
           totalQuestions: data.totalQuestions,
           gamePhase: "question",
+          deadline: toLocalDeadline(data.deadline, data.serverNow),
+          reviewLies: [],
+          myAnswer: null,
+          votedFor: null,
+          likedAnswers: [],
+          refusedLikes: [],
           votingOptions: [],
+          roundScores: [],
           correctAnswer: null,
-          imageUrl: data.imageUrl ?? null, // Use nullish coalescing to preserve empty strings
+          acceptedAnswers: [],
+          reveal: [],
+          audienceVotes: {},
+          questionMedia: data.media ?? null,
+          answerMedia: null,
+          nextMedia: null,
         }));
       }
     );
 
     socket.on(
       "game:voting",
-      (data: { answers: Array<{ answer: string; isCorrect?: boolean }> }) => {
+      (data: {
+        answers: Array<{ answer: string }>;
+        deadline: number | null;
+        serverNow: number;
+      }) => {
         setGameState((prev) => ({
           ...prev,
           votingOptions: data.answers,
           gamePhase: "voting",
+          deadline: toLocalDeadline(data.deadline, data.serverNow),
         }));
       }
     );
@@ -148,37 +489,35 @@ export function useSocket() {
       "game:results",
       (data: {
         correctAnswer: string;
-        imageUrl?: string | null;
+        acceptedAnswers: string[];
+        media?: Media;
+        nextMedia?: Media;
+        reveal: RevealedAnswer[];
         scores: Array<{ name: string; score: number; gained: number }>;
-        leaderboard: Array<{ name: string; score: number }>;
+        leaderboard: Standing[];
+        teamLeaderboard: TeamStanding[];
       }) => {
         console.log("Received game results:", JSON.stringify(data, null, 2));
-        console.log(
-          "Current gameState before results update:",
-          JSON.stringify(
-            {
-              correctAnswer: gameState.correctAnswer,
-              imageUrl: gameState.imageUrl,
-              gamePhase: gameState.gamePhase,
-            },
-            null,
-            2
-          )
-        );
         setGameState((prev) => {
           const newState = {
             ...prev,
             correctAnswer: data.correctAnswer,
-            imageUrl: data.imageUrl ?? null,
+            acceptedAnswers: data.acceptedAnswers,
+            answerMedia: data.media ?? null,
+            nextMedia: data.nextMedia ?? null,
+            reveal: data.reveal,
             leaderboard: data.leaderboard,
+            teamLeaderboard: data.teamLeaderboard,
+            roundScores: data.scores,
             gamePhase: "revealing" as const,
+            deadline: null,
           };
           console.log(
             "New gameState after results update:",
             JSON.stringify(
               {
                 correctAnswer: newState.correctAnswer,
-                imageUrl: newState.imageUrl,
+                answerMedia: newState.answerMedia,
                 gamePhase: newState.gamePhase,
               },
               null,
@@ -190,30 +529,96 @@ export function useSocket() {
       }
     );
 
-    socket.on("game:complete", () => {
-      setGameState((prev) => ({ ...prev, gamePhase: "complete" }));
+    socket.on("game:review", (data: { lies: ReviewedLie[] }) => {
+      setGameState((prev) => ({
+        ...prev,
+        gamePhase: "reviewing",
+        reviewLies: data.lies,
+        deadline: null,
+      }));
+    });
+
+    socket.on("answer:rejected", (data: { reason: string }) => {
+      // Let the player write a different answer
+      setGameState((prev) => ({ ...prev, myAnswer: null }));
+      toast({
+        title: "🤫",
+        description: data.reason,
+        variant: "destructive",
+      });
+    });
+
+    // A teammate's lie went in for the whole team
+    socket.on("team:answered", (data: { answer: string; name: string }) => {
+      setGameState((prev) => ({ ...prev, myAnswer: data.answer }));
       toast({
-        title: "המשחק הסתיים!",
-        description: "תודה ששיחקתם Party Qs!",
+        title: "הקבוצה שלחה שקר",
+        description: `${data.name}: ${data.answer}`,
       });
     });
 
-    socket.on("game:ended", () => {
+    socket.on(
+      "game:complete",
+      (data: {
+        standings: Standing[];
+        teamStandings: TeamStanding[];
+        awards: Award[];
+      }) => {
+        setGameState((prev) => ({
+          ...prev,
+          leaderboard: data.standings,
+          teamLeaderboard: data.teamStandings,
+          awards: data.awards,
+          gamePhase: "complete",
+          deadline: null,
+        }));
+        toast({
+          title: "המשחק הסתיים!",
+          description: "תודה ששיחקתם Party Qs!",
+        });
+      }
+    );
+
+    // The server closed the room; drop back to the start screen
+    const leaveClosedRoom = (description: string, title = "המשחק הסתיים") => {
+      // A display may share the browser with a seat it must not forget
+      if (!displayCode) clearSessions();
       setGameState((prev) => ({
         ...prev,
-        mode: "select",
+        mode: displayCode ? "display" : "select",
         roomCode: null,
+        isAudience: false,
+        displayError: displayCode ? description : null,
         gamePhase: "waiting",
         currentQuestion: null,
         votingOptions: [],
         leaderboard: [],
+        teamLeaderboard: [],
+        awards: [],
         correctAnswer: null,
         players: [],
       }));
+      toast({ title, description, variant: "destructive" });
+    };
+
+    socket.on("game:ended", () => leaveClosedRoom("המארח עזב את המשחק"));
+
+    socket.on("room:expired", () =>
+      leaveClosedRoom("החדר נסגר אחרי זמן ללא פעילות")
+    );
+
+    socket.on("room:kicked", (data: { banned: boolean }) =>
+      leaveClosedRoom(
+        data.banned ? "המארח חסם אותך מהחדר" : "המארח הוציא אותך מהחדר",
+        "יצאת מהחדר"
+      )
+    );
+
+    socket.on("player:renamed", (data: { name: string }) => {
+      setGameState((prev) => ({ ...prev, playerName: data.name }));
       toast({
-        title: "המשחק הסתיים",
-        description: "המארח עזב את המשחק",
-        variant: "destructive",
+        title: "השם שלך שונה",
+        description: `המארח שינה את שמך ל${data.name}`,
       });
     });
 
@@ -228,29 +633,61 @@ export function useSocket() {
     return () => {
       socket.disconnect();
     };
-  }, [toast]);
+  }, [toast, displayCode]);
+
+  // Players only fetch media their phones will show
+  const { nextMedia, isHost, mode, settings } = gameState;
+  useEffect(() => {
+    if (!nextMedia) return;
+    // Phones show uploaded images at the medium size
+    if (isHost || mode === "display") preloadMedia(nextMedia);
+    else if (settings?.mediaOnPhones)
+      preloadMedia(mediaAt(nextMedia, "medium"));
+  }, [nextMedia, isHost, mode, settings]);
 
   const actions = {
     createRoom: (
-      questions: Array<{
-        question: string;
-        correctAnswer: string;
-        imageUrl?: string;
-      }>
+      questions: Question[],
+      packIds: string[],
+      settings: RoomSettings
     ) => {
-      socketRef.current?.emit("room:create", { questions });
+      socketRef.current?.emit("room:create", { questions, packIds, settings });
     },
 
-    joinRoom: (code: string, name: string) => {
+    joinRoom: (code: string, name: string, audience = false) => {
       setGameState((prev) => ({ ...prev, playerName: name }));
-      socketRef.current?.emit("room:join", { code, name });
+      socketRef.current?.emit("room:join", {
+        code,
+        name,
+        deviceId: getDeviceId(),
+        audience,
+      });
     },
 
+    // Answers, votes and likes show at once and are taken back if the
+    // server refuses them, unless something newer has replaced them since
     submitAnswer: (answer: string) => {
       if (gameState.roomCode) {
-        socketRef.current?.emit("answer:submit", {
+        const previous = gameState.myAnswer;
+        socketRef.current?.emit(
+          "answer:submit",
+          { code: gameState.roomCode, answer },
+          (accepted) => {
+            if (accepted) return;
+            setGameState((prev) =>
+              prev.myAnswer === answer ? { ...prev, myAnswer: previous } : prev
+            );
+          }
+        );
+        setGameState((prev) => ({ ...prev, myAnswer: answer }));
+      }
+    },
+
+    chooseTeam: (team: number) => {
+      if (gameState.roomCode) {
+        socketRef.current?.emit("team:choose", {
           code: gameState.roomCode,
-          answer,
+          team,
         });
       }
     },
@@ -266,29 +703,137 @@ export function useSocket() {
 
     voteAnswer: (selectedAnswer: string) => {
       if (gameState.roomCode) {
-        socketRef.current?.emit("answer:vote", {
+        // The audience's votes only feed the crowd meter
+        const previous = gameState.votedFor;
+        socketRef.current?.emit(
+          gameState.isAudience ? "audience:vote" : "answer:vote",
+          { code: gameState.roomCode, selectedAnswer },
+          (accepted) => {
+            if (accepted) return;
+            setGameState((prev) =>
+              prev.votedFor === selectedAnswer
+                ? { ...prev, votedFor: previous }
+                : prev
+            );
+          }
+        );
+        setGameState((prev) => ({ ...prev, votedFor: selectedAnswer }));
+      }
+    },
+
+    likeAnswer: (answer: string) => {
+      if (gameState.roomCode && !gameState.isAudience) {
+        socketRef.current?.emit(
+          "answer:like",
+          { code: gameState.roomCode, answer },
+          (accepted) => {
+            if (accepted) return;
+            setGameState((prev) => ({
+              ...prev,
+              likedAnswers: prev.likedAnswers.filter((lie) => lie !== answer),
+              refusedLikes: [...prev.refusedLikes, answer],
+            }));
+          }
+        );
+        setGameState((prev) => ({
+          ...prev,
+          likedAnswers: [...prev.likedAnswers, answer],
+        }));
+      }
+    },
+
+    transferHost: (playerId: string) => {
+      if (gameState.roomCode && gameState.isHost) {
+        socketRef.current?.emit("host:transfer", {
           code: gameState.roomCode,
-          selectedAnswer,
+          playerId,
+        });
+      }
+    },
+
+    strikeLie: (playerId: string) => {
+      if (gameState.roomCode && gameState.isHost) {
+        socketRef.current?.emit("host:action", {
+          code: gameState.roomCode,
+          action: "strike",
+          playerId,
+        });
+      }
+    },
+
+    kickPlayer: (playerId: string) => {
+      if (gameState.roomCode && gameState.isHost) {
+        socketRef.current?.emit("host:action", {
+          code: gameState.roomCode,
+          action: "kick",
+          playerId,
+        });
+      }
+    },
+
+    banPlayer: (playerId: string) => {
+      if (gameState.roomCode && gameState.isHost) {
+        socketRef.current?.emit("host:action", {
+          code: gameState.roomCode,
+          action: "ban",
+          playerId,
+        });
+      }
+    },
+
+    renamePlayer: (playerId: string, name: string) => {
+      if (gameState.roomCode && gameState.isHost) {
+        socketRef.current?.emit("host:action", {
+          code: gameState.roomCode,
+          action: "rename",
+          playerId,
+          name,
         });
       }
     },
 
     resetGame: () => {
+      // Give the seat up, so the room doesn't hold it for our return
+      if (gameState.roomCode && !gameState.isHost) {
+        socketRef.current?.emit("room:leave", { code: gameState.roomCode });
+      }
+      clearSessions();
+      clearPreloadedMedia();
       setGameState({
         mode: "select",
         roomCode: null,
         playerName: null,
+        playerId: null,
         isHost: false,
+        isAudience: false,
         currentQuestion: null,
         questionIndex: 0,
         totalQuestions: 0,
         players: [],
+        settings: null,
         votingOptions: [],
         leaderboard: [],
+        teamLeaderboard: [],
+        awards: [],
+        roundScores: [],
         correctAnswer: null,
-        imageUrl: null,
+        acceptedAnswers: [],
+        reveal: [],
+        audienceVotes: {},
+        audienceSize: 0,
+        questionMedia: null,
+        answerMedia: null,
+        nextMedia: null,
         gamePhase: "waiting",
+        reviewLies: [],
+        displayError: null,
+        myAnswer: null,
+        votedFor: null,
+        likedAnswers: [],
+        refusedLikes: [],
+        deadline: null,
         connected: socketRef.current?.connected || false,
+        roomCodeFormat: gameState.roomCodeFormat,
       });
     },
 
@@ -0,0 +1,33 @@
+// Owner tokens of the packs saved from this browser, which alone may
+// edit or delete them
+const PACK_TOKENS_KEY = "partyqs:pack-tokens";
+
+function loadTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(PACK_TOKENS_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function packToken(id: string): string | undefined {
+  return loadTokens()[id];
+}
+
+export function savePackToken(id: string, token: string) {
+  localStorage.setItem(
+    PACK_TOKENS_KEY,
+    JSON.stringify({ ...loadTokens(), [id]: token })
+  );
+}
+
+export function forgetPackToken(id: string) {
+  const { [id]: _forgotten, ...rest } = loadTokens();
+  localStorage.setItem(PACK_TOKENS_KEY, JSON.stringify(rest));
+}
+
+// Header the server checks on PUT and DELETE /api/packs/:id
+export function packTokenHeader(id: string): Record<string, string> {
+  const token = packToken(id);
+  return token ? { "X-Pack-Token": token } : {};
+}
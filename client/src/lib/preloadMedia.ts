@@ -0,0 +1,27 @@
+import type { Media } from "@shared/schema";
+
+// Held so the browser doesn't drop a preload before the media is shown
+const preloaded = new Map<string, HTMLImageElement | HTMLMediaElement>();
+
+// Start fetching media now so it shows without a wait when its turn comes
+export function preloadMedia(media: Media) {
+  if (preloaded.has(media.url)) return;
+
+  if (media.type === "image") {
+    const image = new Image();
+    image.src = media.url;
+    preloaded.set(media.url, image);
+    return;
+  }
+
+  const element = document.createElement(media.type);
+  element.preload = "auto";
+  element.src = media.url;
+  element.load();
+  preloaded.set(media.url, element);
+}
+
+// Let go of what was preloaded once a game is over
+export function clearPreloadedMedia() {
+  preloaded.clear();
+}
@@ -11,10 +11,13 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data
+      ? { ...headers, "Content-Type": "application/json" }
+      : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -0,0 +1,13 @@
+import type { PlayerSummary } from "@shared/schema";
+
+// In team play one member's lie answers for the whole team
+export function hasTeamAnswered(
+  players: PlayerSummary[],
+  player: PlayerSummary
+): boolean {
+  return (
+    player.hasAnswered ||
+    (player.team !== null &&
+      players.some((other) => other.team === player.team && other.hasAnswered))
+  );
+}
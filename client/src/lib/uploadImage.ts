@@ -0,0 +1,23 @@
+import type { UploadedImage } from "@shared/media";
+
+const UPLOAD_ERRORS: Record<number, string> = {
+  413: "הקובץ גדול מדי (עד 10MB)",
+  429: "יותר מדי העלאות, נסו שוב בעוד כמה דקות",
+  507: "אין מקום לתמונות נוספות בשרת",
+};
+
+// Send an image file to the server, which keeps it and its resized copies
+export async function uploadImage(file: File): Promise<UploadedImage> {
+  const body = new FormData();
+  body.append("image", file);
+
+  const res = await fetch("/api/uploads", {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    throw new Error(UPLOAD_ERRORS[res.status] ?? "הקובץ אינו תמונה נתמכת");
+  }
+  return res.json();
+}
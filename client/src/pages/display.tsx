@@ -0,0 +1,14 @@
+import { useParams } from "wouter";
+import { useSocket } from "@/hooks/useSocket";
+import { DisplayInterface } from "@/components/DisplayInterface";
+
+export default function Display() {
+  const { code } = useParams<{ code: string }>();
+  const { gameState } = useSocket(code);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <DisplayInterface gameState={gameState} code={code} />
+    </div>
+  );
+}
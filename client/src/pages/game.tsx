@@ -25,6 +25,11 @@ export default function Game() {
             gameState={gameState}
             onCreateRoom={actions.createRoom}
             onHostAction={actions.hostAction}
+            onTransferHost={actions.transferHost}
+            onStrikeLie={actions.strikeLie}
+            onKickPlayer={actions.kickPlayer}
+            onBanPlayer={actions.banPlayer}
+            onRenamePlayer={actions.renamePlayer}
             onNewGame={actions.resetGame}
           />
         )}
@@ -36,6 +41,8 @@ export default function Game() {
             onJoinRoom={actions.joinRoom}
             onSubmitAnswer={actions.submitAnswer}
             onVoteAnswer={actions.voteAnswer}
+            onChooseTeam={actions.chooseTeam}
+            onLikeAnswer={actions.likeAnswer}
             onNewGame={actions.resetGame}
           />
         )}
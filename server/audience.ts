@@ -0,0 +1,68 @@
+type Spectator = { name: string; vote: string | null };
+
+// Spectators per room. They hold no seat and score nothing, so they live in
+// memory next to the socket rather than in storage, and a reconnect simply
+// joins the audience again.
+export class AudienceTracker {
+  private rooms: Map<string, Map<string, Spectator>> = new Map();
+  // socketId -> room code, so a disconnect can be traced back to its room
+  private socketRooms: Map<string, string> = new Map();
+
+  add(code: string, socketId: string, name: string): void {
+    let room = this.rooms.get(code);
+    if (!room) {
+      room = new Map();
+      this.rooms.set(code, room);
+    }
+    room.set(socketId, { name, vote: null });
+    this.socketRooms.set(socketId, code);
+  }
+
+  // Returns the room the spectator was watching, if any
+  remove(socketId: string): string | undefined {
+    const code = this.socketRooms.get(socketId);
+    if (code === undefined) return undefined;
+
+    this.socketRooms.delete(socketId);
+    this.rooms.get(code)?.delete(socketId);
+    if (this.rooms.get(code)?.size === 0) this.rooms.delete(code);
+    return code;
+  }
+
+  has(code: string, socketId: string): boolean {
+    return this.rooms.get(code)?.has(socketId) ?? false;
+  }
+
+  size(code: string): number {
+    return this.rooms.get(code)?.size ?? 0;
+  }
+
+  hasVoted(code: string, socketId: string): boolean {
+    return (this.rooms.get(code)?.get(socketId)?.vote ?? null) !== null;
+  }
+
+  vote(code: string, socketId: string, answer: string): void {
+    const spectator = this.rooms.get(code)?.get(socketId);
+    if (spectator) spectator.vote = answer;
+  }
+
+  clearVotes(code: string): void {
+    this.rooms.get(code)?.forEach((spectator) => (spectator.vote = null));
+  }
+
+  // Votes per voting option
+  tally(code: string): Record<string, number> {
+    const votes: Record<string, number> = {};
+    this.rooms.get(code)?.forEach(({ vote }) => {
+      if (vote !== null) votes[vote] = (votes[vote] ?? 0) + 1;
+    });
+    return votes;
+  }
+
+  deleteRoom(code: string): void {
+    this.rooms
+      .get(code)
+      ?.forEach((_, socketId) => this.socketRooms.delete(socketId));
+    this.rooms.delete(code);
+  }
+}
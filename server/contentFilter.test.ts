@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyContentFilter } from "./contentFilter";
+
+const mask = { contentFilter: "mask" as const, blockedWords: [] };
+
+test("masks blocked words and their disguises", () => {
+  assert.equal(applyContentFilter("what the fuck", mask), "what the ****");
+  assert.equal(applyContentFilter("f u c k", mask), "* * * *");
+  assert.equal(applyContentFilter("sh1t!", mask), "*****");
+  assert.equal(applyContentFilter("fucking", mask), "*******");
+});
+
+test("masks a blocked word behind Hebrew prefixes", () => {
+  assert.equal(applyContentFilter("והזין", mask), "*****");
+  assert.equal(applyContentFilter("השרמוטה", mask), "*******");
+});
+
+test("leaves ordinary words that start with a prefix letter alone", () => {
+  assert.equal(applyContentFilter("מזין", mask), "מזין");
+  assert.equal(applyContentFilter("אוכל מזין", mask), "אוכל מזין");
+  assert.equal(applyContentFilter("מזינים", mask), "מזינים");
+});
+
+test("leaves ordinary words that look like an inflected one alone", () => {
+  assert.equal(applyContentFilter("a cocky reply", mask), "a cocky reply");
+  assert.equal(applyContentFilter("cocker spaniel", mask), "cocker spaniel");
+  assert.equal(applyContentFilter("a cocked hat", mask), "a cocked hat");
+  assert.equal(applyContentFilter("cocks", mask), "*****");
+});
+
+test("masks a vulgarity even when it looks like a prefixed word", () => {
+  assert.equal(applyContentFilter("בזין", mask), "****");
+});
+
+test("leaves allowlisted names alone", () => {
+  assert.equal(applyContentFilter("Dick Van Dyke", mask), "Dick Van Dyke");
+  assert.equal(applyContentFilter("Moby Dick", mask), "Moby Dick");
+  assert.equal(applyContentFilter("Dick", mask), "****");
+});
+
+test("rejects or passes text by the room's mode", () => {
+  const settings = { contentFilter: "reject" as const, blockedWords: [] };
+  assert.equal(applyContentFilter("shit", settings), null);
+  assert.equal(applyContentFilter("אוכל מזין", settings), "אוכל מזין");
+  assert.equal(
+    applyContentFilter("shit", { contentFilter: "off", blockedWords: [] }),
+    "shit"
+  );
+});
+
+test("masks the room's own words", () => {
+  const settings = { contentFilter: "mask" as const, blockedWords: ["בננה"] };
+  assert.equal(applyContentFilter("הבננה", settings), "*****");
+});
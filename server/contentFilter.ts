@@ -0,0 +1,276 @@
+import { normalizeAnswer } from "@shared/answerMatch";
+import type { RoomSettings } from "@shared/schema";
+
+// Base word lists; rooms can add their own on top. Entries may be phrases.
+const BLOCKED_WORDS = [
+  // English
+  "fuck",
+  "motherfucker",
+  "shit",
+  "bullshit",
+  "bitch",
+  "cunt",
+  "dick",
+  "cock",
+  "pussy",
+  "asshole",
+  "bastard",
+  "slut",
+  "whore",
+  "fag",
+  "faggot",
+  "nigger",
+  "nigga",
+  "retard",
+  // Hebrew
+  "זין",
+  "זיין",
+  "מזדיין",
+  "זונה",
+  "שרמוטה",
+  "שרמוטות",
+  "כוסית",
+  "כוסאמק",
+  "כוסעמק",
+  "כוס אמא",
+  "כוס אמק",
+  "מניאק",
+  "חרא",
+  "מטומטם",
+  "אידיוט",
+];
+
+// Innocent words and names that contain a blocked one ("מזין" = nourishing),
+// or that its suffixes would turn into one ("cocky")
+const ALLOWED_WORDS = [
+  "מזין",
+  "cocky",
+  "cocker",
+  "cockers",
+  "cocked",
+  "cocking",
+  "dicky",
+  "fagin",
+  "retarder",
+  "dick van dyke",
+  "moby dick",
+  "philip k dick",
+];
+
+// Characters people swap in for letters to slip past a filter
+const SUBSTITUTIONS: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+  "!": "i",
+  "|": "l",
+};
+
+// Inflections that still count as the blocked word ("fucking", "זונות")
+const SUFFIXES = [
+  "",
+  "s",
+  "es",
+  "ed",
+  "er",
+  "ers",
+  "ing",
+  "in",
+  "y",
+  "ים",
+  "ות",
+];
+
+// Single-letter prefixes Hebrew glues onto words ("והזין" = "and the ...")
+const HEBREW_PREFIXES = "והבלמשכ";
+
+// Just the letters, after undoing substitutions and the answer normalization
+function canonical(token: string): string {
+  const unmasked = Array.from(token.toLowerCase())
+    .map((char) => SUBSTITUTIONS[char] ?? char)
+    .join("");
+  return normalizeAnswer(unmasked).replace(/[^a-z\u05D0-\u05EA]/g, "");
+}
+
+// "fuuuck" -> "fuck", so stretched words can't hide
+function collapseRepeats(word: string): string {
+  return word.replace(/(.)\1+/g, "$1");
+}
+
+// Punctuation at the edges is punctuation, not a stand-in letter ("shit!")
+function stripEdges(token: string): string {
+  return token.replace(/^[^\w\u05D0-\u05EA]+|[^\w\u05D0-\u05EA]+$/g, "");
+}
+
+function isBlockedWord(token: string, word: string): boolean {
+  const collapsedWord = collapseRepeats(word);
+  return SUFFIXES.some((suffix) => {
+    if (!token.endsWith(suffix)) return false;
+    const stem = token.slice(0, token.length - suffix.length);
+    // Length guard keeps short real words ("as") from matching ("ass")
+    return (
+      collapseRepeats(stem) === collapsedWord && stem.length >= word.length
+    );
+  });
+}
+
+// The token with one or two leading prefix letters taken off
+function withoutPrefixes(token: string): string[] {
+  const variants: string[] = [];
+  for (let i = 0; i < 2 && HEBREW_PREFIXES.includes(token[i] ?? "-"); i++) {
+    variants.push(token.slice(i + 1));
+  }
+  return variants;
+}
+
+// A prefix only counts when what's left is exactly the word; otherwise
+// ordinary words that happen to start with a prefix letter would match
+function hasPrefixedWord(token: string, word: string): boolean {
+  return (
+    word.length >= 3 &&
+    withoutPrefixes(token).some(
+      (rest) => collapseRepeats(rest) === collapseRepeats(word)
+    )
+  );
+}
+
+type Token = { start: number; end: number; forms: string[] };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const forms = Array.from(
+      new Set([canonical(match[0]), canonical(stripEdges(match[0]))])
+    ).filter(Boolean);
+    if (forms.length > 0) {
+      tokens.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        forms,
+      });
+    }
+  }
+  return tokens;
+}
+
+// "f u c k": runs of single letters are read as one word too
+function letterRuns(tokens: Token[]): Token[] {
+  const runs: Token[] = [];
+  let run: Token[] = [];
+  const flush = () => {
+    if (run.length >= 3) {
+      runs.push({
+        start: run[0].start,
+        end: run[run.length - 1].end,
+        forms: [run.map((token) => token.forms[0]).join("")],
+      });
+    }
+    run = [];
+  };
+  for (const token of tokens) {
+    if (token.forms[0].length === 1) {
+      run.push(token);
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return runs;
+}
+
+function toEntries(list: string[]): string[][] {
+  return list
+    .map((entry) => entry.split(/\s+/).map(canonical).filter(Boolean))
+    .filter((words) => words.length > 0);
+}
+
+// Character ranges of text that hit the base list or the room's own words
+function findBlocked(
+  text: string,
+  extraWords: string[]
+): Array<[number, number]> {
+  const tokens = tokenize(text);
+  const candidates = tokens.concat(letterRuns(tokens));
+  const ranges: Array<[number, number]> = [];
+
+  for (const words of toEntries(BLOCKED_WORDS.concat(extraWords))) {
+    // Phrases also match written as one word ("כוסאמא")
+    const joined = words.join("");
+    for (const token of candidates) {
+      const hit = token.forms.some(
+        (form) => isBlockedWord(form, joined) || hasPrefixedWord(form, joined)
+      );
+      if (hit) ranges.push([token.start, token.end]);
+    }
+    if (words.length === 1) continue;
+
+    // Phrases match consecutive tokens
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      const window = tokens.slice(i, i + words.length);
+      const hit = window.every((token, j) =>
+        token.forms.some(
+          (form) =>
+            isBlockedWord(form, words[j]) ||
+            (j === 0 && hasPrefixedWord(form, words[j]))
+        )
+      );
+      if (hit) ranges.push([window[0].start, window[window.length - 1].end]);
+    }
+  }
+  return ranges;
+}
+
+// Character ranges of text taken up by allowlisted words and names
+function findAllowed(text: string): Array<[number, number]> {
+  const tokens = tokenize(text);
+  const ranges: Array<[number, number]> = [];
+  for (const words of toEntries(ALLOWED_WORDS)) {
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      const window = tokens.slice(i, i + words.length);
+      const allowed = window.every((token, j) =>
+        token.forms.some(
+          (form) =>
+            form === words[j] ||
+            (j === 0 && withoutPrefixes(form).includes(words[j]))
+        )
+      );
+      if (allowed) {
+        ranges.push([window[0].start, window[window.length - 1].end]);
+      }
+    }
+  }
+  return ranges;
+}
+
+// Star out the hits, keeping the spacing so the text reads the same length
+function mask(text: string, ranges: Array<[number, number]>): string {
+  return ranges.reduce(
+    (masked, [start, end]) =>
+      masked.slice(0, start) +
+      masked.slice(start, end).replace(/\S/g, "*") +
+      masked.slice(end),
+    text
+  );
+}
+
+// Apply the room's filter mode: the text to use, or null when it's refused
+export function applyContentFilter(
+  text: string,
+  settings: Pick<RoomSettings, "contentFilter" | "blockedWords">
+): string | null {
+  if (settings.contentFilter === "off") return text;
+
+  const allowed = findAllowed(text);
+  const ranges = findBlocked(text, settings.blockedWords).filter(
+    ([start, end]) => !allowed.some(([from, to]) => from <= start && end <= to)
+  );
+  if (ranges.length === 0) return text;
+  return settings.contentFilter === "reject" ? null : mask(text, ranges);
+}
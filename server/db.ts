@@ -0,0 +1,15 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+// Plain node-postgres, so the same code runs against Neon or a local Postgres
+export function createDb(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+export type Db = ReturnType<typeof createDb>;
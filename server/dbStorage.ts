@@ -0,0 +1,819 @@
+import {
+  and,
+  count,
+  eq,
+  ne,
+  or,
+  lt,
+  isNotNull,
+  asc,
+  desc,
+  sql,
+} from "drizzle-orm";
+import {
+  roomSettingsSchema,
+  rooms,
+  questions,
+  players,
+  answers,
+  votes,
+  likes,
+  scores,
+  questionPacks,
+  type Room,
+  type Question,
+  type PlayerSummary,
+  type RoomSettings,
+  type Standing,
+  type TeamStanding,
+  type Award,
+  type QuestionPack,
+  type QuestionPackInput,
+  type QuestionPackSummary,
+} from "@shared/schema";
+import { isSameLie } from "@shared/answerMatch";
+import { randomUUID } from "crypto";
+import type { Db } from "./db";
+import { findFreeRoomCode } from "./roomCodes";
+import {
+  type IStorage,
+  isSameName,
+  uniqueName,
+  prepareQuestions,
+  rankStandings,
+  rankTeams,
+  pickAwards,
+  summarizePack,
+} from "./storage";
+
+type PackRow = typeof questionPacks.$inferSelect;
+
+// The owner token never leaves the server with the pack
+function toPack({
+  createdAt,
+  updatedAt,
+  ownerToken,
+  ...row
+}: PackRow): QuestionPack {
+  return { ...row, updatedAt: updatedAt.toISOString() };
+}
+
+// Postgres-backed storage, so live games survive a restart or redeploy.
+// The IStorage surface still speaks socket ids; rows are keyed by the stable
+// playerId and the current socket is looked up per call.
+export class DbStorage implements IStorage {
+  constructor(private db: Db) {}
+
+  private async findPlayer(code: string, socketId: string) {
+    const [player] = await this.db
+      .select()
+      .from(players)
+      .where(and(eq(players.roomCode, code), eq(players.socketId, socketId)));
+    return player;
+  }
+
+  // Players other than the current host
+  private notHost() {
+    return ne(players.socketId, rooms.hostId);
+  }
+
+  async createRoom(
+    hostId: string,
+    roomQuestions: Question[],
+    settings: RoomSettings
+  ): Promise<{ code: string; hostToken: string }> {
+    const code = await findFreeRoomCode(
+      async (code) => (await this.db.$count(rooms, eq(rooms.code, code))) > 0
+    );
+    const hostToken = randomUUID();
+    const prepared = prepareQuestions(roomQuestions, settings);
+
+    await this.db.transaction(async (tx) => {
+      await tx.insert(rooms).values({
+        code,
+        hostId,
+        hostToken,
+        settings,
+        lastActivity: Date.now(),
+      });
+      if (prepared.length > 0) {
+        await tx.insert(questions).values(
+          prepared.map((q, position) => ({
+            roomCode: code,
+            position,
+            question: q.question,
+            correctAnswer: q.correctAnswer,
+            acceptedAnswers: q.acceptedAnswers ?? null,
+            questionMedia: q.questionMedia ?? null,
+            answerMedia: q.answerMedia ?? null,
+          }))
+        );
+      }
+    });
+    return { code, hostToken };
+  }
+
+  async setHost(code: string, socketId: string): Promise<string | undefined> {
+    // A fresh token locks the previous host device out
+    const [room] = await this.db
+      .update(rooms)
+      .set({ hostId: socketId, hostToken: randomUUID() })
+      .where(eq(rooms.code, code))
+      .returning({ hostToken: rooms.hostToken });
+    return room?.hostToken;
+  }
+
+  async getRoom(code: string): Promise<Room | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(rooms)
+      .where(eq(rooms.code, code));
+    if (!row) return undefined;
+
+    const [
+      questionRows,
+      playerRows,
+      answerRows,
+      voteRows,
+      likeRows,
+      scoreRows,
+    ] = await Promise.all([
+      this.db
+        .select()
+        .from(questions)
+        .where(eq(questions.roomCode, code))
+        .orderBy(asc(questions.position)),
+      this.db
+        .select()
+        .from(players)
+        .where(eq(players.roomCode, code))
+        .orderBy(asc(players.joinedAt)),
+      this.db.select().from(answers).where(eq(answers.roomCode, code)),
+      this.db.select().from(votes).where(eq(votes.roomCode, code)),
+      this.db.select().from(likes).where(eq(likes.roomCode, code)),
+      this.db.select().from(scores).where(eq(scores.roomCode, code)),
+    ]);
+
+    // Rebuild the socket-keyed records the game logic works with
+    const socketOf = new Map(playerRows.map((p) => [p.id, p.socketId]));
+    const room: Room = {
+      code: row.code,
+      hostId: row.hostId,
+      hostToken: row.hostToken,
+      questions: questionRows.map((q) => ({
+        question: q.question,
+        correctAnswer: q.correctAnswer,
+        ...(q.acceptedAnswers !== null && {
+          acceptedAnswers: q.acceptedAnswers,
+        }),
+        ...(q.questionMedia !== null && { questionMedia: q.questionMedia }),
+        ...(q.answerMedia !== null && { answerMedia: q.answerMedia }),
+      })),
+      currentQuestionIndex: row.currentQuestionIndex,
+      players: {},
+      answers: {},
+      scores: {},
+      roundScores: {},
+      offline: {},
+      votes: {},
+      likes: {},
+      tokens: {},
+      playerIds: {},
+      stats: {},
+      devices: {},
+      teams: {},
+      bans: row.bans,
+      // Fills in settings added since the row was written
+      settings: roomSettingsSchema.parse(row.settings),
+      deadline: row.deadline,
+      state: row.state,
+      lastActivity: row.lastActivity,
+    };
+    for (const player of playerRows) {
+      room.players[player.socketId] = player.name;
+      room.playerIds[player.socketId] = player.id;
+      room.tokens[player.token] = player.socketId;
+      if (player.offline) room.offline[player.socketId] = true;
+      if (player.deviceId) room.devices[player.socketId] = player.deviceId;
+      if (player.team !== null) room.teams[player.socketId] = player.team;
+    }
+    for (const answer of answerRows) {
+      const socketId = socketOf.get(answer.playerId);
+      if (socketId) room.answers[socketId] = answer.answer;
+    }
+    for (const vote of voteRows) {
+      const socketId = socketOf.get(vote.playerId);
+      if (socketId) room.votes[socketId] = vote.selectedAnswer;
+    }
+    for (const like of likeRows) {
+      const socketId = socketOf.get(like.playerId);
+      if (socketId) (room.likes[socketId] ??= []).push(like.answer);
+    }
+    for (const score of scoreRows) {
+      const socketId = socketOf.get(score.playerId);
+      if (!socketId) continue;
+      room.scores[socketId] = score.score;
+      if (score.roundScore) room.roundScores[socketId] = score.roundScore;
+      room.stats[socketId] = {
+        fooled: score.fooled,
+        correct: score.correct,
+        liked: score.liked,
+      };
+    }
+    return room;
+  }
+
+  async updateRoom(code: string, updates: Partial<Room>): Promise<void> {
+    // Only room-level fields live on the rooms row; per-player state changes
+    // through the dedicated methods below
+    const {
+      hostId,
+      hostToken,
+      currentQuestionIndex,
+      state,
+      deadline,
+      settings,
+      lastActivity,
+    } = updates;
+    const set = Object.fromEntries(
+      Object.entries({
+        hostId,
+        hostToken,
+        currentQuestionIndex,
+        state,
+        deadline,
+        settings,
+        lastActivity,
+      }).filter(([, value]) => value !== undefined)
+    );
+    if (Object.keys(set).length === 0) return;
+
+    await this.db.update(rooms).set(set).where(eq(rooms.code, code));
+  }
+
+  async deleteRoom(code: string): Promise<void> {
+    // Questions, players and everything keyed by player cascade
+    await this.db.delete(rooms).where(eq(rooms.code, code));
+  }
+
+  async touchRoom(code: string): Promise<void> {
+    await this.db
+      .update(rooms)
+      .set({ lastActivity: Date.now() })
+      .where(eq(rooms.code, code));
+  }
+
+  async getRoomCount(): Promise<number> {
+    return this.db.$count(rooms);
+  }
+
+  async getRoomCodes(): Promise<string[]> {
+    const rows = await this.db.select({ code: rooms.code }).from(rooms);
+    return rows.map((row) => row.code);
+  }
+
+  async getExpiredRooms(
+    idleBefore: number,
+    completeBefore: number
+  ): Promise<string[]> {
+    // Finished games go sooner than ones that merely went quiet
+    const rows = await this.db
+      .select({ code: rooms.code })
+      .from(rooms)
+      .where(
+        or(
+          lt(rooms.lastActivity, idleBefore),
+          and(
+            eq(rooms.state, "complete"),
+            lt(rooms.lastActivity, completeBefore)
+          )
+        )
+      );
+    return rows.map((row) => row.code);
+  }
+
+  private async namesInRoom(code: string, exceptSocketId?: string) {
+    const rows = await this.db
+      .select({ socketId: players.socketId, name: players.name })
+      .from(players)
+      .where(eq(players.roomCode, code));
+    return rows
+      .filter((row) => row.socketId !== exceptSocketId)
+      .map((row) => row.name);
+  }
+
+  async addPlayerToRoom(
+    code: string,
+    socketId: string,
+    name: string,
+    deviceId?: string
+  ): Promise<{ playerId: string; playerToken: string; name: string }> {
+    const playerId = randomUUID();
+    const playerToken = randomUUID();
+    const finalName = uniqueName(name.trim(), await this.namesInRoom(code));
+    await this.db.insert(players).values({
+      id: playerId,
+      roomCode: code,
+      socketId,
+      token: playerToken,
+      name: finalName,
+      deviceId: deviceId ?? null,
+    });
+    return { playerId, playerToken, name: finalName };
+  }
+
+  async renamePlayer(
+    code: string,
+    socketId: string,
+    name: string
+  ): Promise<string | undefined> {
+    const player = await this.findPlayer(code, socketId);
+    if (!player) return undefined;
+
+    const finalName = uniqueName(
+      name.trim(),
+      await this.namesInRoom(code, socketId)
+    );
+    await this.db
+      .update(players)
+      .set({ name: finalName })
+      .where(eq(players.id, player.id));
+    return finalName;
+  }
+
+  async banPlayer(code: string, socketId: string): Promise<void> {
+    const player = await this.findPlayer(code, socketId);
+    if (!player) return;
+
+    const ban = { name: player.name, deviceId: player.deviceId };
+    await this.db
+      .update(rooms)
+      .set({ bans: sql`${rooms.bans} || ${JSON.stringify([ban])}::jsonb` })
+      .where(eq(rooms.code, code));
+  }
+
+  async isBanned(
+    code: string,
+    name: string,
+    deviceId?: string
+  ): Promise<boolean> {
+    const [room] = await this.db
+      .select({ bans: rooms.bans })
+      .from(rooms)
+      .where(eq(rooms.code, code));
+    if (!room) return false;
+
+    return room.bans.some(
+      (ban) =>
+        isSameName(ban.name, name) || (!!deviceId && ban.deviceId === deviceId)
+    );
+  }
+
+  async rebindPlayer(
+    code: string,
+    playerToken: string,
+    socketId: string
+  ): Promise<string | undefined> {
+    const [player] = await this.db
+      .select({ id: players.id, socketId: players.socketId })
+      .from(players)
+      .where(and(eq(players.roomCode, code), eq(players.token, playerToken)));
+    if (!player) return undefined;
+
+    // Answers, votes, likes and scores hang off the playerId, so they follow along
+    await this.db
+      .update(players)
+      .set({ socketId, offline: false })
+      .where(eq(players.id, player.id));
+    return player.socketId;
+  }
+
+  async removePlayerFromRoom(code: string, socketId: string): Promise<void> {
+    await this.db
+      .delete(players)
+      .where(and(eq(players.roomCode, code), eq(players.socketId, socketId)));
+  }
+
+  async setPlayerConnected(
+    code: string,
+    socketId: string,
+    connected: boolean
+  ): Promise<void> {
+    await this.db
+      .update(players)
+      .set({ offline: !connected })
+      .where(and(eq(players.roomCode, code), eq(players.socketId, socketId)));
+  }
+
+  async getPlayerName(
+    code: string,
+    socketId: string
+  ): Promise<string | undefined> {
+    return (await this.findPlayer(code, socketId))?.name;
+  }
+
+  async getSocketId(
+    code: string,
+    playerId: string
+  ): Promise<string | undefined> {
+    const [player] = await this.db
+      .select({ socketId: players.socketId })
+      .from(players)
+      .where(and(eq(players.roomCode, code), eq(players.id, playerId)));
+    return player?.socketId;
+  }
+
+  async submitAnswer(
+    code: string,
+    socketId: string,
+    answer: string
+  ): Promise<void> {
+    const player = await this.findPlayer(code, socketId);
+    if (!player) return;
+
+    await this.db
+      .insert(answers)
+      .values({ playerId: player.id, roomCode: code, answer: answer.trim() })
+      .onConflictDoUpdate({
+        target: answers.playerId,
+        set: { answer: answer.trim() },
+      });
+  }
+
+  async removeAnswer(code: string, socketId: string): Promise<void> {
+    const player = await this.findPlayer(code, socketId);
+    if (!player) return;
+
+    await this.db.delete(answers).where(eq(answers.playerId, player.id));
+  }
+
+  async clearAnswers(code: string): Promise<void> {
+    await this.db.delete(answers).where(eq(answers.roomCode, code));
+  }
+
+  async getAllAnswers(
+    code: string
+  ): Promise<Array<{ name: string; answer: string }>> {
+    return this.db
+      .select({ name: players.name, answer: answers.answer })
+      .from(answers)
+      .innerJoin(players, eq(players.id, answers.playerId))
+      .where(eq(answers.roomCode, code));
+  }
+
+  async getAnswerAuthors(code: string, answer: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ socketId: players.socketId, answer: answers.answer })
+      .from(answers)
+      .innerJoin(players, eq(players.id, answers.playerId))
+      .where(eq(answers.roomCode, code));
+
+    // Matching lies were merged into one option, so credit all their authors
+    return rows
+      .filter((row) => isSameLie(row.answer, answer))
+      .map((row) => row.socketId);
+  }
+
+  async getAnswerCount(code: string): Promise<number> {
+    // Answers from disconnected players (or the host) don't count toward completeness
+    const [row] = await this.db
+      .select({ count: count() })
+      .from(answers)
+      .innerJoin(players, eq(players.id, answers.playerId))
+      .innerJoin(rooms, eq(rooms.code, players.roomCode))
+      .where(
+        and(
+          eq(answers.roomCode, code),
+          this.notHost(),
+          eq(players.offline, false)
+        )
+      );
+    return row.count;
+  }
+
+  async getPlayerCount(code: string): Promise<number> {
+    return this.db.$count(players, eq(players.roomCode, code));
+  }
+
+  async getPlayerCountExcludingHost(code: string): Promise<number> {
+    const [row] = await this.db
+      .select({ count: count() })
+      .from(players)
+      .innerJoin(rooms, eq(rooms.code, players.roomCode))
+      .where(
+        and(
+          eq(players.roomCode, code),
+          this.notHost(),
+          eq(players.offline, false)
+        )
+      );
+    return row.count;
+  }
+
+  async getPlayersExcludingHost(code: string): Promise<PlayerSummary[]> {
+    const rows = await this.db
+      .select({
+        id: players.id,
+        name: players.name,
+        offline: players.offline,
+        team: players.team,
+        answer: answers.playerId,
+        vote: votes.playerId,
+      })
+      .from(players)
+      .innerJoin(rooms, eq(rooms.code, players.roomCode))
+      .leftJoin(answers, eq(answers.playerId, players.id))
+      .leftJoin(votes, eq(votes.playerId, players.id))
+      .where(and(eq(players.roomCode, code), this.notHost()))
+      .orderBy(asc(players.joinedAt));
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      connected: !row.offline,
+      hasAnswered: row.answer !== null,
+      hasVoted: row.vote !== null,
+      team: row.team,
+    }));
+  }
+
+  async setPlayerTeam(
+    code: string,
+    socketId: string,
+    team: number
+  ): Promise<void> {
+    await this.db
+      .update(players)
+      .set({ team })
+      .where(and(eq(players.roomCode, code), eq(players.socketId, socketId)));
+  }
+
+  async updatePlayerScore(
+    code: string,
+    socketId: string,
+    points: number
+  ): Promise<void> {
+    const player = await this.findPlayer(code, socketId);
+    if (!player) return;
+
+    await this.db
+      .insert(scores)
+      .values({
+        playerId: player.id,
+        roomCode: code,
+        score: points,
+        roundScore: points,
+      })
+      .onConflictDoUpdate({
+        target: scores.playerId,
+        set: {
+          score: sql`${scores.score} + ${points}`,
+          roundScore: sql`${scores.roundScore} + ${points}`,
+        },
+      });
+  }
+
+  async getRoundScores(
+    code: string
+  ): Promise<Array<{ name: string; score: number; gained: number }>> {
+    const rows = await this.db
+      .select({
+        name: players.name,
+        score: scores.score,
+        gained: scores.roundScore,
+      })
+      .from(players)
+      .innerJoin(rooms, eq(rooms.code, players.roomCode))
+      .leftJoin(scores, eq(scores.playerId, players.id))
+      .where(and(eq(players.roomCode, code), this.notHost()))
+      .orderBy(asc(players.joinedAt));
+
+    return rows
+      .map((row) => ({
+        name: row.name,
+        score: row.score ?? 0,
+        gained: row.gained ?? 0,
+      }))
+      .sort((a, b) => b.gained - a.gained);
+  }
+
+  async clearRoundScores(code: string): Promise<void> {
+    await this.db
+      .update(scores)
+      .set({ roundScore: 0 })
+      .where(eq(scores.roomCode, code));
+  }
+
+  async getLeaderboard(code: string): Promise<Standing[]> {
+    const rows = await this.db
+      .select({
+        id: players.id,
+        name: players.name,
+        score: scores.score,
+        gained: scores.roundScore,
+      })
+      .from(players)
+      .innerJoin(rooms, eq(rooms.code, players.roomCode))
+      .leftJoin(scores, eq(scores.playerId, players.id))
+      // A player handed the host role keeps their place in the standings
+      .where(
+        and(
+          eq(players.roomCode, code),
+          or(this.notHost(), isNotNull(scores.playerId))
+        )
+      );
+
+    return rankStandings(
+      rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        score: row.score ?? 0,
+        gained: row.gained ?? 0,
+      }))
+    );
+  }
+
+  async getTeamLeaderboard(code: string): Promise<TeamStanding[]> {
+    const [room] = await this.db
+      .select({ settings: rooms.settings })
+      .from(rooms)
+      .where(eq(rooms.code, code));
+    if (!room) return [];
+
+    const rows = await this.db
+      .select({
+        name: players.name,
+        team: players.team,
+        score: scores.score,
+        gained: scores.roundScore,
+      })
+      .from(players)
+      .leftJoin(scores, eq(scores.playerId, players.id))
+      .where(and(eq(players.roomCode, code), isNotNull(players.team)));
+
+    return rankTeams(
+      roomSettingsSchema.parse(room.settings).teams,
+      rows.map((row) => ({
+        name: row.name,
+        team: row.team,
+        score: row.score ?? 0,
+        gained: row.gained ?? 0,
+      }))
+    );
+  }
+
+  async recordStat(
+    code: string,
+    socketId: string,
+    stat: "fooled" | "correct" | "liked"
+  ): Promise<void> {
+    const player = await this.findPlayer(code, socketId);
+    if (!player) return;
+
+    await this.db
+      .insert(scores)
+      .values({
+        playerId: player.id,
+        roomCode: code,
+        fooled: stat === "fooled" ? 1 : 0,
+        correct: stat === "correct" ? 1 : 0,
+        liked: stat === "liked" ? 1 : 0,
+      })
+      .onConflictDoUpdate({
+        target: scores.playerId,
+        set: { [stat]: sql`${scores[stat]} + 1` },
+      });
+  }
+
+  async getAwards(code: string): Promise<Award[]> {
+    const rows = await this.db
+      .select({
+        id: players.id,
+        name: players.name,
+        fooled: scores.fooled,
+        correct: scores.correct,
+        liked: scores.liked,
+      })
+      .from(scores)
+      .innerJoin(players, eq(players.id, scores.playerId))
+      .where(eq(scores.roomCode, code));
+
+    return pickAwards(rows);
+  }
+
+  async recordVote(
+    code: string,
+    socketId: string,
+    answer: string
+  ): Promise<boolean> {
+    const player = await this.findPlayer(code, socketId);
+    if (!player) return false;
+
+    // The primary key decides between racing votes, not an earlier read
+    const inserted = await this.db
+      .insert(votes)
+      .values({ playerId: player.id, roomCode: code, selectedAnswer: answer })
+      .onConflictDoNothing()
+      .returning({ playerId: votes.playerId });
+    return inserted.length > 0;
+  }
+
+  async getVoteCount(code: string): Promise<number> {
+    // Only connected players' votes count toward completeness
+    const [row] = await this.db
+      .select({ count: count() })
+      .from(votes)
+      .innerJoin(players, eq(players.id, votes.playerId))
+      .innerJoin(rooms, eq(rooms.code, players.roomCode))
+      .where(
+        and(
+          eq(votes.roomCode, code),
+          this.notHost(),
+          eq(players.offline, false)
+        )
+      );
+    return row.count;
+  }
+
+  async clearVotes(code: string): Promise<void> {
+    await this.db.delete(votes).where(eq(votes.roomCode, code));
+  }
+
+  async recordLike(
+    code: string,
+    socketId: string,
+    answer: string
+  ): Promise<boolean> {
+    const player = await this.findPlayer(code, socketId);
+    if (!player) return false;
+
+    const inserted = await this.db
+      .insert(likes)
+      .values({ playerId: player.id, roomCode: code, answer })
+      .onConflictDoNothing()
+      .returning({ playerId: likes.playerId });
+    return inserted.length > 0;
+  }
+
+  async clearLikes(code: string): Promise<void> {
+    await this.db.delete(likes).where(eq(likes.roomCode, code));
+  }
+
+  async listPacks(): Promise<QuestionPackSummary[]> {
+    const rows = await this.db
+      .select()
+      .from(questionPacks)
+      .orderBy(desc(questionPacks.updatedAt));
+    return rows.map((row) => summarizePack(toPack(row)));
+  }
+
+  async getPack(id: string): Promise<QuestionPack | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(questionPacks)
+      .where(eq(questionPacks.id, id));
+    return row && toPack(row);
+  }
+
+  async createPack(
+    pack: QuestionPackInput
+  ): Promise<{ pack: QuestionPack; ownerToken: string }> {
+    const ownerToken = randomUUID();
+    const [row] = await this.db
+      .insert(questionPacks)
+      .values({ ...pack, id: randomUUID(), ownerToken })
+      .returning();
+    return { pack: toPack(row), ownerToken };
+  }
+
+  async isPackOwner(id: string, ownerToken: string): Promise<boolean> {
+    if (ownerToken === "") return false;
+    const [row] = await this.db
+      .select({ id: questionPacks.id })
+      .from(questionPacks)
+      .where(
+        and(eq(questionPacks.id, id), eq(questionPacks.ownerToken, ownerToken))
+      );
+    return row !== undefined;
+  }
+
+  async updatePack(
+    id: string,
+    pack: QuestionPackInput
+  ): Promise<QuestionPack | undefined> {
+    const [row] = await this.db
+      .update(questionPacks)
+      .set({ ...pack, updatedAt: new Date() })
+      .where(eq(questionPacks.id, id))
+      .returning();
+    return row && toPack(row);
+  }
+
+  async deletePack(id: string): Promise<boolean> {
+    const rows = await this.db
+      .delete(questionPacks)
+      .where(eq(questionPacks.id, id))
+      .returning({ id: questionPacks.id });
+    return rows.length > 0;
+  }
+}
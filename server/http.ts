@@ -0,0 +1,24 @@
+import type { NextFunction, Request, Response } from "express";
+import type { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+type Handler = (req: Request, res: Response) => Promise<void>;
+
+// Express 4 doesn't catch rejected promises on its own
+export const route =
+  (handler: Handler) => (req: Request, res: Response, next: NextFunction) =>
+    handler(req, res).catch(next);
+
+// Parse a request body, answering 400 with the reason when it doesn't fit
+export function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  req: Request,
+  res: Response
+): z.infer<T> | undefined {
+  const result = schema.safeParse(req.body);
+  if (!result.success) {
+    res.status(400).json({ message: fromZodError(result.error).message });
+    return undefined;
+  }
+  return result.data;
+}
@@ -0,0 +1,137 @@
+import { createHash } from "crypto";
+import {
+  access,
+  mkdir,
+  readdir,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import {
+  IMAGE_VARIANTS,
+  imageVariantPath,
+  type ImageVariant,
+  type UploadedImage,
+} from "@shared/media";
+
+// Uploads live on local disk so games keep working without outside hosts;
+// UPLOAD_DIR moves them somewhere persistent
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR ?? "uploads");
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Once the stored images add up to this, new ones are refused
+const MAX_UPLOAD_DIR_BYTES =
+  Number(process.env.MAX_UPLOAD_DIR_BYTES) || 1024 * 1024 * 1024;
+
+// Checked against the decoded file, not the name or the declared type
+const ACCEPTED_FORMATS = ["jpeg", "png", "webp", "gif"];
+
+// Guards against small files that decode to huge images
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const variants = Object.keys(IMAGE_VARIANTS) as ImageVariant[];
+
+function describe(id: string, width: number, height: number): UploadedImage {
+  return {
+    id,
+    url: imageVariantPath(id, "large"),
+    width,
+    height,
+    variants: Object.fromEntries(
+      variants.map((variant) => [variant, imageVariantPath(id, variant)])
+    ) as Record<ImageVariant, string>,
+  };
+}
+
+// Bytes under UPLOAD_DIR: measured once, then kept up to date as images are
+// written, so a full disk check doesn't walk the folder on every upload
+let usedBytes: Promise<number> | null = null;
+
+async function folderSize(dir: string): Promise<number> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  const sizes = await Promise.all(
+    entries.map(async (entry) => {
+      const file = path.join(dir, entry.name);
+      return entry.isDirectory() ? folderSize(file) : (await stat(file)).size;
+    })
+  );
+  return sizes.reduce((total, size) => total + size, 0);
+}
+
+export async function hasUploadSpace(): Promise<boolean> {
+  usedBytes ??= folderSize(UPLOAD_DIR);
+  return (await usedBytes) < MAX_UPLOAD_DIR_BYTES;
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Store an uploaded image with its resized variants. Named by content, so
+// the same file uploaded twice shares one folder and one URL. Undefined when
+// the file isn't an image we accept.
+export async function saveImage(
+  buffer: Buffer
+): Promise<UploadedImage | undefined> {
+  const image = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS });
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await image.metadata();
+  } catch {
+    return undefined;
+  }
+  if (!metadata.format || !ACCEPTED_FORMATS.includes(metadata.format)) {
+    return undefined;
+  }
+
+  const id = createHash("sha256").update(buffer).digest("hex").slice(0, 24);
+  const dir = path.join(UPLOAD_DIR, id);
+
+  // Encode into a scratch folder first so a half-written upload is never served
+  if (!(await exists(dir))) {
+    const scratch = `${dir}.${process.pid}.${Date.now()}.tmp`;
+    await mkdir(scratch, { recursive: true });
+    try {
+      const written = await Promise.all(
+        variants.map(async (variant) => {
+          const size = IMAGE_VARIANTS[variant];
+          const output = await image
+            .clone()
+            .rotate() // follow the EXIF orientation from phone cameras
+            .resize(size, size, { fit: "inside", withoutEnlargement: true })
+            .webp({ quality: 80 })
+            .toBuffer();
+          await writeFile(path.join(scratch, `${variant}.webp`), output);
+          return output.length;
+        })
+      );
+      await rename(scratch, dir);
+      const added = written.reduce((total, size) => total + size, 0);
+      if (usedBytes) usedBytes = usedBytes.then((used) => used + added);
+    } catch (error) {
+      await rm(scratch, { recursive: true, force: true });
+      // Another request for the same file may have finished first
+      if (!(await exists(dir))) throw error;
+    }
+  }
+
+  // Sides swap for images the camera stored rotated
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  return describe(id, rotated ? height : width, rotated ? width : height);
+}
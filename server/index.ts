@@ -1,8 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { PACK_BODY_LIMIT } from "./packRoutes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Behind a reverse proxy, TRUST_PROXY is how many of them to believe about
+// the client's address
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY) || 1);
+}
+// Packs get their own, larger limit; the default 100kb fits everything else
+app.use("/api/packs", express.json({ limit: PACK_BODY_LIMIT }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -0,0 +1,39 @@
+type Window = { failures: number; resetAt: number };
+
+// Counts failed attempts per key inside a fixed window; once a key reaches its
+// limit it is refused until the window runs out
+export class FailureThrottle {
+  private windows: Map<string, Window> = new Map();
+
+  constructor(private windowMs: number) {}
+
+  isBlocked(key: string, limit: number): boolean {
+    const window = this.windows.get(key);
+    if (!window) return false;
+    if (window.resetAt <= Date.now()) {
+      this.windows.delete(key);
+      return false;
+    }
+    return window.failures >= limit;
+  }
+
+  recordFailure(key: string): void {
+    const window = this.windows.get(key);
+    if (window && window.resetAt > Date.now()) {
+      window.failures++;
+    } else {
+      this.windows.set(key, {
+        failures: 1,
+        resetAt: Date.now() + this.windowMs,
+      });
+    }
+  }
+
+  // Forget windows that have run out
+  prune(): void {
+    const now = Date.now();
+    for (const [key, window] of Array.from(this.windows)) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
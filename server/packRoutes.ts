@@ -0,0 +1,165 @@
+import type { Express, Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  questionPackInputSchema,
+  questionPackImportSchema,
+} from "@shared/schema";
+import {
+  formatQuestionFile,
+  parseQuestionFile,
+  toQuestions,
+  type QuestionFileFormat,
+} from "@shared/questionFile";
+import { parseBody, route } from "./http";
+import { storage } from "./storage";
+
+const FILE_TYPES: Record<
+  QuestionFileFormat,
+  { extension: string; type: string }
+> = {
+  text: { extension: "txt", type: "text/plain" },
+  json: { extension: "json", type: "application/json" },
+  csv: { extension: "csv", type: "text/csv" },
+};
+
+// Enough for the biggest pack the schemas allow: 500 questions of up to
+// ~9,500 characters each, or a 5M-character file, mostly two-byte Hebrew
+export const PACK_BODY_LIMIT = "10mb";
+
+// Creating a pack answers with its owner token; editing or deleting it
+// needs that token back in this header
+const OWNER_TOKEN_HEADER = "X-Pack-Token";
+
+// Answers 404 or 403 unless the request may change the pack
+async function checkOwner(req: Request, res: Response): Promise<boolean> {
+  if (!(await storage.getPack(req.params.id))) {
+    res.status(404).json({ message: "Pack not found" });
+    return false;
+  }
+  const ownerToken = req.get(OWNER_TOKEN_HEADER) ?? "";
+  if (!(await storage.isPackOwner(req.params.id, ownerToken))) {
+    res.status(403).json({ message: "Not the pack's owner" });
+    return false;
+  }
+  return true;
+}
+
+// CRUD for saved question packs under /api/packs
+export function registerPackRoutes(app: Express) {
+  app.get(
+    "/api/packs",
+    route(async (_req, res) => {
+      res.json(await storage.listPacks());
+    })
+  );
+
+  app.get(
+    "/api/packs/:id",
+    route(async (req, res) => {
+      const pack = await storage.getPack(req.params.id);
+      if (!pack) {
+        res.status(404).json({ message: "Pack not found" });
+        return;
+      }
+      res.json(pack);
+    })
+  );
+
+  app.post(
+    "/api/packs",
+    route(async (req, res) => {
+      const input = parseBody(questionPackInputSchema, req, res);
+      if (!input) return;
+
+      const { pack, ownerToken } = await storage.createPack(input);
+      res.status(201).json({ ...pack, ownerToken });
+    })
+  );
+
+  // Create a pack from a question file; errors come back with line numbers
+  app.post(
+    "/api/packs/import",
+    route(async (req, res) => {
+      const input = parseBody(questionPackImportSchema, req, res);
+      if (!input) return;
+
+      const { format, content, ...pack } = input;
+      const { questions, issues } = parseQuestionFile(content, format);
+      const errors = issues.filter((issue) => issue.severity === "error");
+      if (errors.length > 0 || questions.length === 0) {
+        res.status(400).json({
+          message: errors.length > 0 ? "Invalid question file" : "No questions",
+          issues: errors,
+        });
+        return;
+      }
+
+      const parsed = questionPackInputSchema.safeParse({
+        ...pack,
+        questions: toQuestions(questions),
+      });
+      if (!parsed.success) {
+        res.status(400).json({ message: fromZodError(parsed.error).message });
+        return;
+      }
+      const { pack: created, ownerToken } = await storage.createPack(
+        parsed.data
+      );
+      res.status(201).json({ ...created, ownerToken });
+    })
+  );
+
+  app.get(
+    "/api/packs/:id/export",
+    route(async (req, res) => {
+      const parsed = questionPackImportSchema.shape.format.safeParse(
+        req.query.format ?? "json"
+      );
+      if (!parsed.success) {
+        res.status(400).json({ message: "Unknown format" });
+        return;
+      }
+      const format = parsed.data;
+
+      const pack = await storage.getPack(req.params.id);
+      if (!pack) {
+        res.status(404).json({ message: "Pack not found" });
+        return;
+      }
+
+      const { extension, type } = FILE_TYPES[format];
+      res
+        .attachment(`${pack.name}.${extension}`)
+        .type(type)
+        .send(formatQuestionFile(pack.questions, format));
+    })
+  );
+
+  app.put(
+    "/api/packs/:id",
+    route(async (req, res) => {
+      const input = parseBody(questionPackInputSchema, req, res);
+      if (!input || !(await checkOwner(req, res))) return;
+
+      const pack = await storage.updatePack(req.params.id, input);
+      if (!pack) {
+        res.status(404).json({ message: "Pack not found" });
+        return;
+      }
+      res.json(pack);
+    })
+  );
+
+  app.delete(
+    "/api/packs/:id",
+    route(async (req, res) => {
+      if (!(await checkOwner(req, res))) return;
+
+      if (!(await storage.deletePack(req.params.id))) {
+        res.status(404).json({ message: "Pack not found" });
+        return;
+      }
+      res.status(204).end();
+    })
+  );
+}
@@ -0,0 +1,47 @@
+import { randomInt } from "crypto";
+import {
+  ROOM_CODE_ALPHABETS,
+  ROOM_CODE_MIN_LENGTH,
+  ROOM_CODE_MAX_LENGTH,
+  DEFAULT_ROOM_CODE_FORMAT,
+  type RoomCodeFormat,
+} from "@shared/roomCode";
+
+// ROOM_CODE_ALPHABET=digits|letters and ROOM_CODE_LENGTH pick the format
+export const roomCodeFormat: RoomCodeFormat = {
+  alphabet:
+    process.env.ROOM_CODE_ALPHABET === "letters"
+      ? "letters"
+      : DEFAULT_ROOM_CODE_FORMAT.alphabet,
+  length: Math.min(
+    ROOM_CODE_MAX_LENGTH,
+    Math.max(
+      ROOM_CODE_MIN_LENGTH,
+      Number(process.env.ROOM_CODE_LENGTH) || DEFAULT_ROOM_CODE_FORMAT.length
+    )
+  ),
+};
+
+const ROOM_CODE_ATTEMPTS = 100;
+
+function generateRoomCode(format: RoomCodeFormat): string {
+  const alphabet = ROOM_CODE_ALPHABETS[format.alphabet];
+  let code = "";
+  for (let i = 0; i < format.length; i++) {
+    code += alphabet[randomInt(alphabet.length)];
+  }
+  return code;
+}
+
+// Codes come from crypto randomness so they can't be predicted from earlier
+// ones; a server that keeps colliding gives up instead of spinning
+export async function findFreeRoomCode(
+  isTaken: (code: string) => Promise<boolean>,
+  format: RoomCodeFormat = roomCodeFormat
+): Promise<string> {
+  for (let attempt = 0; attempt < ROOM_CODE_ATTEMPTS; attempt++) {
+    const code = generateRoomCode(format);
+    if (!(await isTaken(code))) return code;
+  }
+  throw new Error("No free room codes left");
+}
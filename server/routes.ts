@@ -1,18 +1,274 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { Server as SocketIOServer } from "socket.io";
+import { Server as SocketIOServer, type Socket } from "socket.io";
 import { storage } from "./storage";
 import {
   createRoomSchema,
   joinRoomSchema,
+  joinDisplaySchema,
+  chooseTeamSchema,
+  rejoinRoomSchema,
+  leaveRoomSchema,
   submitAnswerSchema,
   voteAnswerSchema,
+  likeAnswerSchema,
   hostActionSchema,
+  reclaimHostSchema,
+  transferHostSchema,
   type ServerToClientEvents,
   type ClientToServerEvents,
+  type Room,
+  type ReviewedLie,
+  type RevealedAnswer,
 } from "@shared/schema";
+import { isSameLie, matchesAnyAnswer } from "@shared/answerMatch";
+import { normalizeRoomCode } from "@shared/roomCode";
+import { roomCodeFormat } from "./roomCodes";
+import { FailureThrottle } from "./joinThrottle";
+import { applyContentFilter } from "./contentFilter";
+import { registerPackRoutes } from "./packRoutes";
+import { registerUploadRoutes } from "./uploadRoutes";
+import { AudienceTracker } from "./audience";
+
+// How long a room survives after its host disconnects
+const HOST_DISCONNECT_GRACE_MS = 60_000;
+
+// Room housekeeping, overridable through the environment
+const ROOM_IDLE_TTL_MS = Number(process.env.ROOM_IDLE_TTL_MS) || 30 * 60_000;
+const ROOM_COMPLETE_TTL_MS =
+  Number(process.env.ROOM_COMPLETE_TTL_MS) || 10 * 60_000;
+const ROOM_SWEEP_INTERVAL_MS =
+  Number(process.env.ROOM_SWEEP_INTERVAL_MS) || 60_000;
+const MAX_ROOMS = Number(process.env.MAX_ROOMS) || 1000;
+
+// Wrong room codes allowed per minute before joins are refused, so nobody can
+// walk the code space into strangers' games
+const JOIN_FAILURE_WINDOW_MS = 60_000;
+const MAX_JOIN_FAILURES_PER_SOCKET = 5;
+// A whole venue can share one address behind its router, typos and all
+const MAX_JOIN_FAILURES_PER_IP = 60;
+
+// Spectators, kept in memory for as long as their sockets are connected
+const audience = new AudienceTracker();
+
+// X-Forwarded-For is only believed as far as the proxies we were told to
+// trust; each of them appends the address it saw, anything earlier is the
+// client's to forge
+function clientAddress(socket: Socket, trustedProxies: number): string {
+  const forwarded = socket.handshake.headers["x-forwarded-for"];
+  if (trustedProxies <= 0 || !forwarded) return socket.handshake.address;
+
+  const hops = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded)
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return (
+    hops[Math.max(0, hops.length - trustedProxies)] ?? socket.handshake.address
+  );
+}
+
+// Answer the client's ack, if it asked for one; the argument comes from
+// the client, so it may be anything
+function acknowledge(ack: unknown, accepted: boolean) {
+  if (typeof ack === "function") ack(accepted);
+}
+
+// Team play deals with one lie per team instead of one per player
+function isTeamPlay(room: Room): boolean {
+  return room.settings.teams.length > 0;
+}
+
+// The lie this player stands behind: their own, or in team play whichever
+// teammate wrote the team's
+function teamLie(
+  room: Room,
+  socketId: string
+): { authorId: string; answer: string } | undefined {
+  const team = room.teams[socketId];
+  const entry = Object.entries(room.answers).find(
+    ([authorId]) =>
+      authorId === socketId ||
+      (team !== undefined && room.teams[authorId] === team)
+  );
+  return entry && { authorId: entry[0], answer: entry[1] };
+}
+
+// New players go to the team with the fewest members, the first on a tie
+function smallestTeam(room: Room): number {
+  const sizes = room.settings.teams.map(() => 0);
+  for (const [socketId, team] of Object.entries(room.teams)) {
+    if (socketId in room.players && team < sizes.length) sizes[team]++;
+  }
+  return sizes.indexOf(Math.min(...sizes));
+}
+
+// Every distinct submitted lie plus the real answer, shuffled
+async function buildVotingOptions(
+  code: string,
+  room: Room
+): Promise<Array<{ answer: string }>> {
+  const answers = await storage.getAllAnswers(code);
+  const currentQuestion = room.questions[room.currentQuestionIndex];
+  const lies: string[] = [];
+  for (const { answer } of answers) {
+    if (!lies.some((lie) => isSameLie(lie, answer))) {
+      lies.push(answer);
+    }
+  }
+  // Nothing marks the truth: it goes out to every phone
+  const votingOptions = [
+    ...lies.map((answer) => ({ answer })),
+    { answer: currentQuestion.correctAnswer },
+  ];
+  // Shuffle the options
+  for (let i = votingOptions.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [votingOptions[i], votingOptions[j]] = [votingOptions[j], votingOptions[i]];
+  }
+  return votingOptions;
+}
+
+function buildQuestionData(
+  room: Room,
+  index: number = room.currentQuestionIndex
+) {
+  const currentQuestion = room.questions[index];
+  return {
+    question: currentQuestion.question,
+    questionIndex: index + 1,
+    totalQuestions: room.questions.length,
+    media: currentQuestion.questionMedia,
+  };
+}
+
+// Deadlines go out with the server clock so clients can correct for skew
+function phaseTiming(deadline: number | null) {
+  return { deadline, serverNow: Date.now() };
+}
+
+// Who wrote each lie and who fell for it, lies first and the truth last
+function buildReveal(room: Room): RevealedAnswer[] {
+  const { correctAnswer } = room.questions[room.currentQuestionIndex];
+  const votes = Object.entries(room.votes);
+  const audienceVotes = Object.entries(audience.tally(room.code));
+  const audienceFor = (matches: (vote: string) => boolean) =>
+    audienceVotes
+      .filter(([vote]) => matches(vote))
+      .reduce((sum, [, count]) => sum + count, 0);
+  const likes = Object.values(room.likes).flat();
+  const votersOf = (matches: (vote: string) => boolean) =>
+    votes
+      .filter(([, vote]) => matches(vote))
+      .map(([socketId]) => room.players[socketId])
+      .filter(Boolean);
+
+  const lies: RevealedAnswer[] = [];
+  for (const [socketId, answer] of Object.entries(room.answers)) {
+    if (socketId === room.hostId) continue;
+    // Teams take the credit for their lies in team play
+    const name = isTeamPlay(room)
+      ? room.settings.teams[room.teams[socketId]]
+      : room.players[socketId];
+    const lie = lies.find((entry) => isSameLie(entry.answer, answer));
+    if (lie) {
+      if (name && !lie.authors.includes(name)) lie.authors.push(name);
+      continue;
+    }
+    lies.push({
+      answer,
+      isCorrect: false,
+      authors: name ? [name] : [],
+      voters: votersOf(
+        (vote) => vote !== correctAnswer && isSameLie(vote, answer)
+      ),
+      audienceVotes: audienceFor(
+        (vote) => vote !== correctAnswer && isSameLie(vote, answer)
+      ),
+      likes: likes.filter((liked) => isSameLie(liked, answer)).length,
+    });
+  }
+
+  return [
+    ...lies,
+    {
+      answer: correctAnswer,
+      isCorrect: true,
+      authors: [],
+      voters: votersOf((vote) => vote === correctAnswer),
+      audienceVotes: audienceFor((vote) => vote === correctAnswer),
+      likes: 0,
+    },
+  ];
+}
+
+async function buildResults(code: string, room: Room) {
+  const currentQuestion = room.questions[room.currentQuestionIndex];
+  return {
+    correctAnswer: currentQuestion.correctAnswer,
+    acceptedAnswers: currentQuestion.acceptedAnswers ?? [],
+    media: currentQuestion.answerMedia,
+    nextMedia: room.questions[room.currentQuestionIndex + 1]?.questionMedia,
+    reveal: buildReveal(room),
+    scores: await storage.getRoundScores(code),
+    leaderboard: await storage.getLeaderboard(code),
+    teamLeaderboard: await storage.getTeamLeaderboard(code),
+  };
+}
+
+// Every submitted lie with its author, for the host's review
+function buildReviewList(room: Room): ReviewedLie[] {
+  return Object.entries(room.answers)
+    .filter(([socketId]) => socketId !== room.hostId)
+    .map(([socketId, answer]) => ({
+      playerId: room.playerIds[socketId],
+      name: room.players[socketId],
+      answer,
+    }));
+}
+
+async function buildFinalResults(code: string) {
+  return {
+    standings: await storage.getLeaderboard(code),
+    teamStandings: await storage.getTeamLeaderboard(code),
+    awards: await storage.getAwards(code),
+  };
+}
+
+// Bring a socket that arrives mid-game up to the room's current phase
+async function sendCurrentPhase(
+  socket: Socket<ClientToServerEvents, ServerToClientEvents>,
+  code: string,
+  room: Room,
+  asHost = socket.id === room.hostId
+) {
+  if (room.state === "question" || room.state === "reviewing") {
+    // Players still see the question while the host reviews the lies
+    if (room.questions[room.currentQuestionIndex]) {
+      socket.emit("game:question", {
+        ...buildQuestionData(room),
+        ...phaseTiming(room.deadline),
+      });
+    }
+    if (room.state === "reviewing" && asHost) {
+      socket.emit("game:review", { lies: buildReviewList(room) });
+    }
+  } else if (room.state === "voting") {
+    const votingOptions = await buildVotingOptions(code, room);
+    socket.emit("game:voting", {
+      answers: votingOptions,
+      ...phaseTiming(room.deadline),
+    });
+  } else if (room.state === "revealing") {
+    socket.emit("game:results", await buildResults(code, room));
+  } else if (room.state === "complete") {
+    socket.emit("game:complete", await buildFinalResults(code));
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  registerPackRoutes(app);
+  registerUploadRoutes(app);
+
   const httpServer = createServer(app);
 
   const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(
@@ -26,23 +282,343 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // socketId -> room code, so a disconnect can be traced back to its room
+  const socketRooms = new Map<string, string>();
+  // room code -> pending teardown after the host disconnected
+  const hostGraceTimers = new Map<string, NodeJS.Timeout>();
+  // room code -> countdown for the current question/voting phase
+  const phaseTimers = new Map<string, NodeJS.Timeout>();
+  const joinThrottle = new FailureThrottle(JOIN_FAILURE_WINDOW_MS);
+  // Express' "trust proxy" setting, as a number of proxy hops
+  const trustedProxies = Number(app.get("trust proxy")) || 0;
+
+  // Wrong room codes count against both the socket and its address
+  const isJoinBlocked = (socket: Socket) =>
+    joinThrottle.isBlocked(
+      `socket:${socket.id}`,
+      MAX_JOIN_FAILURES_PER_SOCKET
+    ) ||
+    joinThrottle.isBlocked(
+      `ip:${clientAddress(socket, trustedProxies)}`,
+      MAX_JOIN_FAILURES_PER_IP
+    );
+
+  const recordJoinFailure = (socket: Socket) => {
+    joinThrottle.recordFailure(`socket:${socket.id}`);
+    joinThrottle.recordFailure(`ip:${clientAddress(socket, trustedProxies)}`);
+  };
+
+  const clearPhaseTimer = (code: string) => {
+    clearTimeout(phaseTimers.get(code));
+    phaseTimers.delete(code);
+  };
+
+  // Replace the room's countdown; returns the new deadline, or null when off
+  const schedulePhaseTimer = (
+    code: string,
+    seconds: number,
+    onExpire: (code: string) => Promise<void>
+  ): number | null => {
+    clearPhaseTimer(code);
+    if (seconds <= 0) return null;
+
+    const timer = setTimeout(() => {
+      phaseTimers.delete(code);
+      onExpire(code).catch((error) =>
+        console.error("Phase timer error:", error)
+      );
+    }, seconds * 1000);
+    phaseTimers.set(code, timer);
+    return Date.now() + seconds * 1000;
+  };
+
+  // Tear a room down and tell whoever is still in it why
+  const closeRoom = async (
+    code: string,
+    reason: "game:ended" | "room:expired"
+  ) => {
+    clearTimeout(hostGraceTimers.get(code));
+    hostGraceTimers.delete(code);
+    clearPhaseTimer(code);
+    audience.deleteRoom(code);
+    io.to(code).emit(reason);
+    for (const [socketId, roomCode] of Array.from(socketRooms)) {
+      if (roomCode === code) socketRooms.delete(socketId);
+    }
+    io.in(code).socketsLeave(code);
+    await storage.deleteRoom(code);
+  };
+
+  // Give the host a moment to come back before tearing the room down
+  const scheduleHostGrace = (code: string) => {
+    clearTimeout(hostGraceTimers.get(code));
+    const timer = setTimeout(() => {
+      hostGraceTimers.delete(code);
+      closeRoom(code, "game:ended")
+        .then(() => console.log(`Room ${code} closed after host left`))
+        .catch((error) => console.error("Host grace timer error:", error));
+    }, HOST_DISCONNECT_GRACE_MS);
+    hostGraceTimers.set(code, timer);
+  };
+
+  const sweepRooms = async () => {
+    const now = Date.now();
+    const expired = await storage.getExpiredRooms(
+      now - ROOM_IDLE_TTL_MS,
+      now - ROOM_COMPLETE_TTL_MS
+    );
+    for (const code of expired) {
+      await closeRoom(code, "room:expired");
+      console.log(`Room ${code} expired`);
+    }
+  };
+
+  const sweeper = setInterval(() => {
+    joinThrottle.prune();
+    sweepRooms().catch((error) => console.error("Room sweep error:", error));
+  }, ROOM_SWEEP_INTERVAL_MS);
+  sweeper.unref();
+  httpServer.on("close", () => clearInterval(sweeper));
+
+  // Crowd meter for the display and the host
+  const sendAudienceVotes = (code: string) => {
+    io.to(code).emit("audience:votes", {
+      votes: audience.tally(code),
+      size: audience.size(code),
+    });
+  };
+
+  // The authors of the lie the audience voted for most share the bonus
+  const awardAudienceBonus = async (code: string, room: Room) => {
+    const bonus = room.settings.audienceBonus;
+    if (bonus <= 0) return;
+
+    const { correctAnswer } = room.questions[room.currentQuestionIndex];
+    const lies = Object.entries(audience.tally(code)).filter(
+      ([answer]) => answer !== correctAnswer
+    );
+    const most = Math.max(0, ...lies.map(([, count]) => count));
+    if (most === 0) return;
+
+    for (const [answer, count] of lies) {
+      if (count !== most) continue;
+      for (const authorId of await storage.getAnswerAuthors(code, answer)) {
+        await storage.updatePlayerScore(code, authorId, bonus);
+      }
+    }
+  };
+
+  const startQuestion = async (code: string, index: number) => {
+    const room = await storage.getRoom(code);
+    if (!room) return;
+
+    await storage.clearAnswers(code);
+    await storage.clearVotes(code);
+    await storage.clearLikes(code);
+    await storage.clearRoundScores(code);
+    audience.clearVotes(code);
+    const deadline = schedulePhaseTimer(
+      code,
+      room.settings.questionSeconds,
+      closeQuestion
+    );
+    await storage.updateRoom(code, {
+      currentQuestionIndex: index,
+      state: "question",
+      deadline,
+    });
+
+    const questionData = {
+      ...buildQuestionData(room, index),
+      ...phaseTiming(deadline),
+    };
+    console.log(
+      "Sending question data:",
+      JSON.stringify(questionData, null, 2)
+    );
+    io.to(code).emit("game:question", questionData);
+    sendAudienceVotes(code);
+
+    // Answered/voted flags start over with the new question
+    const playerNames = await storage.getPlayersExcludingHost(code);
+    io.to(code).emit("room:players", playerNames);
+  };
+
+  // Answering is over: straight to voting, or to the host's review first
+  const closeQuestion = async (code: string) => {
+    const room = await storage.getRoom(code);
+    if (!room || room.state !== "question") return;
+
+    if (room.settings.reviewLies) {
+      await startReview(code);
+    } else {
+      await startVoting(code);
+    }
+  };
+
+  const startReview = async (code: string) => {
+    clearPhaseTimer(code);
+    await storage.updateRoom(code, { state: "reviewing", deadline: null });
+    await sendReviewList(code);
+  };
+
+  const sendReviewList = async (code: string) => {
+    const room = await storage.getRoom(code);
+    if (!room || room.state !== "reviewing") return;
+
+    io.to(room.hostId).emit("game:review", { lies: buildReviewList(room) });
+  };
+
+  const startVoting = async (code: string) => {
+    const room = await storage.getRoom(code);
+    if (!room || (room.state !== "question" && room.state !== "reviewing")) {
+      return;
+    }
+
+    const votingOptions = await buildVotingOptions(code, room);
+    const deadline = schedulePhaseTimer(
+      code,
+      room.settings.votingSeconds,
+      revealResults
+    );
+    // Answers are kept through voting so lies can be credited to their authors
+    await storage.updateRoom(code, { state: "voting", deadline });
+    io.to(code).emit("game:voting", {
+      answers: votingOptions,
+      ...phaseTiming(deadline),
+    });
+  };
+
+  const revealResults = async (code: string) => {
+    const room = await storage.getRoom(code);
+    if (!room || room.state !== "voting") return;
+
+    clearPhaseTimer(code);
+    await awardAudienceBonus(code, room);
+    const resultsData = await buildResults(code, room);
+    await storage.updateRoom(code, { state: "revealing", deadline: null });
+    console.log(
+      "Sending results with full data:",
+      JSON.stringify(resultsData, null, 2)
+    );
+    io.to(code).emit("game:results", resultsData);
+  };
+
+  // Reveal once every connected player has voted
+  const advanceIfAllVoted = async (code: string) => {
+    const room = await storage.getRoom(code);
+    if (!room || room.state !== "voting") return;
+
+    const voteCount = await storage.getVoteCount(code);
+    const playerCount = await storage.getPlayerCountExcludingHost(code);
+
+    if (voteCount >= playerCount && playerCount > 0) {
+      await revealResults(code);
+    }
+  };
+
+  // Move to voting once every connected player has submitted a lie, or in
+  // team play once every team with someone connected has
+  const advanceIfAllAnswered = async (code: string) => {
+    const room = await storage.getRoom(code);
+    if (!room || room.state !== "question") return;
+
+    if (isTeamPlay(room)) {
+      const connected = Object.keys(room.players).filter(
+        (socketId) => socketId !== room.hostId && !room.offline[socketId]
+      );
+      if (
+        connected.length > 0 &&
+        connected.every((socketId) => teamLie(room, socketId))
+      ) {
+        await closeQuestion(code);
+      }
+      return;
+    }
+
+    const answerCount = await storage.getAnswerCount(code);
+    const playerCount = await storage.getPlayerCountExcludingHost(code);
+
+    if (answerCount >= playerCount && playerCount > 0) {
+      await closeQuestion(code);
+    }
+  };
+
+  // Connected teammates of a player, not counting the player
+  const teammatesOf = (room: Room, socketId: string): string[] => {
+    const team = room.teams[socketId];
+    if (team === undefined) return [];
+    return Object.keys(room.players).filter(
+      (id) =>
+        id !== socketId &&
+        id !== room.hostId &&
+        room.teams[id] === team &&
+        !room.offline[id]
+    );
+  };
+
+  // Take a player out of the room at the host's request
+  const expelPlayer = async (
+    code: string,
+    socketId: string,
+    banned: boolean
+  ) => {
+    if (banned) await storage.banPlayer(code, socketId);
+    await storage.removePlayerFromRoom(code, socketId);
+    socketRooms.delete(socketId);
+
+    const target = io.sockets.sockets.get(socketId);
+    target?.emit("room:kicked", { banned });
+    await target?.leave(code);
+
+    const playerNames = await storage.getPlayersExcludingHost(code);
+    io.to(code).emit("room:players", playerNames);
+
+    // The players left may now all have answered or voted
+    await advanceIfAllAnswered(code);
+    await advanceIfAllVoted(code);
+    await sendReviewList(code);
+  };
+
   io.on("connection", (socket) => {
     console.log(`Player connected: ${socket.id}`);
+    socket.emit("server:config", { roomCode: roomCodeFormat });
+
+    // Any event aimed at a room counts as activity there
+    socket.use(([, data], next) => {
+      if (typeof data?.code === "string") {
+        storage
+          .touchRoom(data.code)
+          .catch((error) => console.error("Room touch error:", error));
+      }
+      next();
+    });
 
     socket.on("room:create", async (data) => {
       try {
         process.stdout.write("\n🔍 [DEBUG] Room creation started\n");
         process.stdout.write(`🔍 [DEBUG] Raw data: ${JSON.stringify(data)}\n`);
 
-        const { questions } = createRoomSchema.parse(data);
+        const { questions, packIds, settings } = createRoomSchema.parse(data);
         process.stdout.write(
           `🔍 [DEBUG] Questions after parse: ${JSON.stringify(questions)}\n`
         );
 
-        const filteredQuestions = questions.filter(
-          (q) =>
-            q.question.trim().length > 0 && q.correctAnswer.trim().length > 0
+        const packs = await Promise.all(
+          packIds.map((id) => storage.getPack(id))
         );
+        if (packs.some((pack) => !pack)) {
+          socket.emit("error", "אחת מחבילות השאלות לא נמצאה");
+          return;
+        }
+        const packQuestions = packs.flatMap((pack) => pack?.questions ?? []);
+
+        const filteredQuestions = questions
+          .concat(packQuestions)
+          .filter(
+            (q) =>
+              q.question.trim().length > 0 && q.correctAnswer.trim().length > 0
+          );
         process.stdout.write(
           `🔍 [DEBUG] Filtered questions: ${JSON.stringify(
             filteredQuestions
@@ -54,11 +630,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return;
         }
 
+        if ((await storage.getRoomCount()) >= MAX_ROOMS) {
+          socket.emit("error", "השרת מלא כרגע, נסו שוב בעוד כמה דקות");
+          return;
+        }
+
         console.log("Creating room with questions:", filteredQuestions);
-        const code = await storage.createRoom(socket.id, filteredQuestions);
+        const { code, hostToken } = await storage.createRoom(
+          socket.id,
+          filteredQuestions,
+          settings
+        );
         await socket.join(code);
+        socketRooms.set(socket.id, code);
 
-        socket.emit("room:created", { code });
+        socket.emit("room:created", { code, hostToken });
         console.log(`Room created: ${code} by ${socket.id}`);
       } catch (error) {
         socket.emit("error", "נכשל ביצירת החדר");
@@ -68,52 +654,100 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     socket.on("room:join", async (data) => {
       try {
-        const { code, name } = joinRoomSchema.parse(data);
+        const {
+          code: typedCode,
+          name: typedName,
+          deviceId,
+          audience: wantsAudience,
+        } = joinRoomSchema.parse(data);
+        const code = normalizeRoomCode(typedCode, roomCodeFormat);
+
+        if (isJoinBlocked(socket)) {
+          socket.emit("error", "יותר מדי ניסיונות, נסו שוב בעוד דקה");
+          return;
+        }
+
         const room = await storage.getRoom(code);
 
         if (!room) {
+          recordJoinFailure(socket);
           socket.emit("error", "החדר לא נמצא");
           return;
         }
 
-        await storage.addPlayerToRoom(code, socket.id, name);
+        const filteredName = applyContentFilter(typedName, room.settings);
+        if (filteredName === null) {
+          socket.emit("error", "השם הזה לא מתאים לחדר, בחרו שם אחר");
+          return;
+        }
+
+        if (await storage.isBanned(code, filteredName, deviceId)) {
+          socket.emit("error", "נחסמת מהחדר הזה");
+          return;
+        }
+
+        // Disconnected players keep their seat, so they count too
+        const roster = await storage.getPlayersExcludingHost(code);
+        const isFull = roster.length >= room.settings.maxPlayers;
+        const isLate = room.state !== "waiting" && !room.settings.allowLateJoin;
+
+        // Whoever can't take a seat may still watch and vote
+        if (wantsAudience || isFull || isLate) {
+          if (!room.settings.allowAudience) {
+            socket.emit(
+              "error",
+              isLate
+                ? "המשחק כבר התחיל"
+                : isFull
+                  ? "החדר מלא"
+                  : "החדר הזה לא פתוח לקהל"
+            );
+            return;
+          }
+
+          audience.add(code, socket.id, filteredName);
+          await socket.join(code);
+          socket.emit("audience:joined", {
+            code,
+            name: filteredName,
+            players: roster,
+            settings: room.settings,
+            overflow: !wantsAudience,
+          });
+          await sendCurrentPhase(socket, code, room, false);
+          sendAudienceVotes(code);
+
+          console.log(`${filteredName} joined room ${code} as audience`);
+          return;
+        }
+
+        const { playerId, playerToken, name } = await storage.addPlayerToRoom(
+          code,
+          socket.id,
+          filteredName,
+          deviceId
+        );
+        if (isTeamPlay(room)) {
+          await storage.setPlayerTeam(code, socket.id, smallestTeam(room));
+        }
         await socket.join(code);
+        socketRooms.set(socket.id, code);
 
         // Get updated player list after adding the new player (excluding host)
         const playerNames = await storage.getPlayersExcludingHost(code);
 
-        socket.emit("room:joined", { code, players: playerNames });
+        socket.emit("room:joined", {
+          code,
+          players: playerNames,
+          playerId,
+          playerToken,
+          name,
+          settings: room.settings,
+        });
         socket.to(code).emit("room:players", playerNames);
 
-        // If game is in progress, send current question
-        if (room.state === "question") {
-          const currentQuestion = room.questions[room.currentQuestionIndex];
-          if (currentQuestion) {
-            socket.emit("game:question", {
-              question: currentQuestion.question,
-              questionIndex: room.currentQuestionIndex + 1,
-              totalQuestions: room.questions.length,
-              imageUrl: currentQuestion.imageUrl,
-            });
-          }
-        } else if (room.state === "voting") {
-          // Send voting options if in voting phase
-          const answers = await storage.getAllAnswers(code);
-          const currentQuestion = room.questions[room.currentQuestionIndex];
-          const votingOptions = [
-            ...answers.map((a) => ({ answer: a.answer, isCorrect: false })),
-            { answer: currentQuestion.correctAnswer, isCorrect: true },
-          ];
-          // Shuffle the options
-          for (let i = votingOptions.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [votingOptions[i], votingOptions[j]] = [
-              votingOptions[j],
-              votingOptions[i],
-            ];
-          }
-          socket.emit("game:voting", { answers: votingOptions });
-        }
+        // If game is in progress, send the current phase
+        await sendCurrentPhase(socket, code, room);
 
         console.log(`Player ${name} joined room ${code}`);
       } catch (error) {
@@ -122,17 +756,218 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    socket.on("answer:submit", async (data) => {
+    // A TV or projector showing the game; it never answers or votes, and
+    // since it isn't tracked in socketRooms its disconnect changes nothing
+    socket.on("display:join", async (data) => {
+      try {
+        const { code: typedCode } = joinDisplaySchema.parse(data);
+        const code = normalizeRoomCode(typedCode, roomCodeFormat);
+
+        if (isJoinBlocked(socket)) {
+          socket.emit("display:join_failed", {
+            reason: "יותר מדי ניסיונות, נסו שוב בעוד דקה",
+          });
+          return;
+        }
+
+        const room = await storage.getRoom(code);
+        if (!room) {
+          recordJoinFailure(socket);
+          socket.emit("display:join_failed", { reason: "החדר לא נמצא" });
+          return;
+        }
+
+        await socket.join(code);
+        socket.emit("display:joined", {
+          code,
+          players: await storage.getPlayersExcludingHost(code),
+          settings: room.settings,
+        });
+        await sendCurrentPhase(socket, code, room, false);
+        socket.emit("audience:votes", {
+          votes: audience.tally(code),
+          size: audience.size(code),
+        });
+
+        console.log(`Display joined room ${code}`);
+      } catch (error) {
+        socket.emit("display:join_failed", { reason: "נכשל בחיבור התצוגה" });
+        console.error("Display join error:", error);
+      }
+    });
+
+    socket.on("room:rejoin", async (data) => {
+      try {
+        const { code, playerToken } = rejoinRoomSchema.parse(data);
+        const previousId = await storage.rebindPlayer(
+          code,
+          playerToken,
+          socket.id
+        );
+        const room = await storage.getRoom(code);
+
+        if (!previousId || !room) {
+          socket.emit("room:rejoin_failed");
+          return;
+        }
+
+        // Retire the old socket if it is somehow still around
+        if (previousId !== socket.id) {
+          socketRooms.delete(previousId);
+          io.sockets.sockets.get(previousId)?.leave(code);
+        }
+        await socket.join(code);
+        socketRooms.set(socket.id, code);
+
+        const playerNames = await storage.getPlayersExcludingHost(code);
+        socket.to(code).emit("room:players", playerNames);
+
+        // Phase first, so the client's per-round reset happens before the
+        // answered/voted flags below are restored
+        await sendCurrentPhase(socket, code, room);
+        socket.emit("room:rejoined", {
+          code,
+          playerId: room.playerIds[socket.id],
+          name: room.players[socket.id],
+          players: playerNames,
+          settings: room.settings,
+          answer: teamLie(room, socket.id)?.answer ?? null,
+          votedFor: room.votes[socket.id] ?? null,
+          liked: room.likes[socket.id] ?? [],
+        });
+
+        console.log(`Player ${room.players[socket.id]} rejoined room ${code}`);
+      } catch (error) {
+        socket.emit("room:rejoin_failed");
+        console.error("Room rejoin error:", error);
+      }
+    });
+
+    socket.on("team:choose", async (data) => {
+      try {
+        const { code, team } = chooseTeamSchema.parse(data);
+        const room = await storage.getRoom(code);
+
+        // Teams are settled once the game starts, or by the server throughout
+        if (
+          !room ||
+          !room.players[socket.id] ||
+          room.state !== "waiting" ||
+          room.settings.autoTeams ||
+          team >= room.settings.teams.length
+        ) {
+          socket.emit("error", "לא ניתן להחליף קבוצה כרגע");
+          return;
+        }
+
+        await storage.setPlayerTeam(code, socket.id, team);
+        const playerNames = await storage.getPlayersExcludingHost(code);
+        io.to(code).emit("room:players", playerNames);
+      } catch (error) {
+        socket.emit("error", "נכשל בהחלפת הקבוצה");
+        console.error("Team choice error:", error);
+      }
+    });
+
+    // Leaving on purpose, unlike a dropped connection, gives up the seat
+    socket.on("room:leave", async (data) => {
+      try {
+        const { code } = leaveRoomSchema.parse(data);
+        if (audience.has(code, socket.id)) {
+          audience.remove(socket.id);
+          await socket.leave(code);
+          sendAudienceVotes(code);
+          return;
+        }
+
+        const room = await storage.getRoom(code);
+        if (!room || !room.players[socket.id] || room.hostId === socket.id) {
+          return;
+        }
+
+        // Lobby players leave no trace; mid-game ones keep their score
+        if (room.state === "waiting") {
+          await storage.removePlayerFromRoom(code, socket.id);
+        } else {
+          await storage.setPlayerConnected(code, socket.id, false);
+        }
+        socketRooms.delete(socket.id);
+        await socket.leave(code);
+
+        const playerNames = await storage.getPlayersExcludingHost(code);
+        io.to(code).emit("room:players", playerNames);
+
+        // The remaining players may now all have answered or voted
+        await advanceIfAllAnswered(code);
+        await advanceIfAllVoted(code);
+      } catch (error) {
+        console.error("Room leave error:", error);
+      }
+    });
+
+    socket.on("answer:submit", async (data, ack) => {
+      let accepted = false;
       try {
         const { code, answer } = submitAnswerSchema.parse(data);
         const room = await storage.getRoom(code);
 
-        if (!room || room.state !== "question") {
+        if (
+          !room ||
+          (room.state !== "question" && room.state !== "reviewing")
+        ) {
           socket.emit("error", "לא ניתן לשלוח תשובה כרגע");
           return;
         }
 
-        await storage.submitAnswer(code, socket.id, answer);
+        // During the review only authors whose lie was struck write again;
+        // a lie the host may already have passed stays as it is
+        if (room.state === "reviewing" && socket.id in room.answers) {
+          socket.emit("answer:rejected", {
+            reason: "המארח כבר בודק את השקר שלך",
+          });
+          return;
+        }
+
+        // A "lie" that is really the truth would give the answer away
+        const currentQuestion = room.questions[room.currentQuestionIndex];
+        if (
+          matchesAnyAnswer(answer, [
+            currentQuestion.correctAnswer,
+            ...(currentQuestion.acceptedAnswers ?? []),
+          ])
+        ) {
+          socket.emit("answer:rejected", {
+            reason: "מצאת את האמת! עכשיו כתוב שקר",
+          });
+          return;
+        }
+
+        const filteredAnswer = applyContentFilter(answer, room.settings);
+        if (filteredAnswer === null) {
+          socket.emit("answer:rejected", {
+            reason: "התשובה נחסמה על ידי מסנן התוכן, נסו ניסוח אחר",
+          });
+          return;
+        }
+
+        // The first lie a team sends is the one it goes with
+        const sentByTeam = teamLie(room, socket.id);
+        if (sentByTeam && sentByTeam.authorId !== socket.id) {
+          socket.emit("team:answered", {
+            answer: sentByTeam.answer,
+            name: room.players[sentByTeam.authorId],
+          });
+          return;
+        }
+
+        await storage.submitAnswer(code, socket.id, filteredAnswer);
+        accepted = true;
+        for (const teammateId of teammatesOf(room, socket.id)) {
+          io.to(teammateId).emit("team:answered", {
+            answer: filteredAnswer,
+            name: room.players[socket.id],
+          });
+        }
 
         const answerCount = await storage.getAnswerCount(code);
         const playerCount = await storage.getPlayerCountExcludingHost(code);
@@ -142,25 +977,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         io.to(code).emit("room:players", playerNames);
 
         // Auto-proceed to voting if all players have answered
-        if (answerCount === playerCount && playerCount > 0) {
-          const answers = await storage.getAllAnswers(code);
-          const currentQuestion = room.questions[room.currentQuestionIndex];
-          const votingOptions = [
-            ...answers.map((a) => ({ answer: a.answer, isCorrect: false })),
-            { answer: currentQuestion.correctAnswer, isCorrect: true },
-          ];
-          // Shuffle the options
-          for (let i = votingOptions.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [votingOptions[i], votingOptions[j]] = [
-              votingOptions[j],
-              votingOptions[i],
-            ];
-          }
-          await storage.updateRoom(code, { state: "voting" });
-          await storage.clearAnswers(code); // Clear for voting phase
-          io.to(code).emit("game:voting", { answers: votingOptions });
-        }
+        await advanceIfAllAnswered(code);
+        // A resubmitted lie goes back in front of the host
+        await sendReviewList(code);
 
         console.log(
           `Answer submitted in room ${code}: ${answerCount}/${playerCount}`
@@ -168,24 +987,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } catch (error) {
         socket.emit("error", "נכשל בשליחת התשובה");
         console.error("Answer submission error:", error);
+      } finally {
+        acknowledge(ack, accepted);
       }
     });
 
-    socket.on("answer:vote", async (data) => {
+    socket.on("answer:vote", async (data, ack) => {
+      let accepted = false;
       try {
         const { code, selectedAnswer } = voteAnswerSchema.parse(data);
         const room = await storage.getRoom(code);
 
-        if (!room || room.state !== "voting") {
+        if (
+          !room ||
+          room.state !== "voting" ||
+          !room.players[socket.id] ||
+          room.hostId === socket.id
+        ) {
           socket.emit("error", "לא ניתן להצביע כרגע");
           return;
         }
 
+        if (socket.id in room.votes) {
+          socket.emit("error", "כבר הצבעת בסבב הזה");
+          return;
+        }
+
         const currentQuestion = room.questions[room.currentQuestionIndex];
         const isCorrect = selectedAnswer === currentQuestion.correctAnswer;
+        const isOffered =
+          isCorrect || Object.values(room.answers).includes(selectedAnswer);
+
+        if (!isOffered) {
+          socket.emit("error", "התשובה הזו אינה אחת מהאפשרויות");
+          return;
+        }
+
+        const ownLie = teamLie(room, socket.id)?.answer;
+        if (
+          !room.settings.allowSelfVote &&
+          ownLie !== undefined &&
+          isSameLie(ownLie, selectedAnswer)
+        ) {
+          socket.emit(
+            "error",
+            isTeamPlay(room)
+              ? "אי אפשר להצביע לשקר של הקבוצה שלך"
+              : "אי אפשר להצביע לשקר שלך"
+          );
+          return;
+        }
+
+        // A duplicate emit that slipped past the check above stops here
+        if (!(await storage.recordVote(code, socket.id, selectedAnswer))) {
+          socket.emit("error", "כבר הצבעת בסבב הזה");
+          return;
+        }
+        accepted = true;
 
         if (isCorrect) {
-          await storage.updatePlayerScore(code, socket.id, 10);
+          await storage.updatePlayerScore(
+            code,
+            socket.id,
+            room.settings.correctPoints
+          );
+          await storage.recordStat(code, socket.id, "correct");
+        } else {
+          // Every author of the chosen lie fooled this voter; nobody scores
+          // off their own team
+          const authors = await storage.getAnswerAuthors(code, selectedAnswer);
+          const team = room.teams[socket.id];
+          for (const authorId of authors) {
+            const isTeammate =
+              team !== undefined && room.teams[authorId] === team;
+            if (authorId !== socket.id && !isTeammate) {
+              await storage.updatePlayerScore(
+                code,
+                authorId,
+                room.settings.foolPoints
+              );
+              await storage.recordStat(code, authorId, "fooled");
+            }
+          }
         }
 
         console.log(
@@ -193,15 +1076,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
             isCorrect ? "Correct" : "Wrong"
           }`
         );
+
+        // Update vote status for host, then reveal if everyone has voted
+        const playerNames = await storage.getPlayersExcludingHost(code);
+        io.to(code).emit("room:players", playerNames);
+        await advanceIfAllVoted(code);
       } catch (error) {
         socket.emit("error", "נכשל בהצבעה");
         console.error("Vote submission error:", error);
+      } finally {
+        acknowledge(ack, accepted);
+      }
+    });
+
+    // Likes are for lies that are funny rather than convincing; each one
+    // pays the authors and counts toward the crowd favourite award
+    socket.on("answer:like", async (data, ack) => {
+      let accepted = false;
+      try {
+        const { code, answer } = likeAnswerSchema.parse(data);
+        const room = await storage.getRoom(code);
+
+        if (
+          !room ||
+          room.state !== "voting" ||
+          !room.players[socket.id] ||
+          room.hostId === socket.id
+        ) {
+          socket.emit("error", "לא ניתן לסמן לייק כרגע");
+          return;
+        }
+
+        // Before the vote a refused like would single out the truth
+        if (!(socket.id in room.votes)) {
+          socket.emit("error", "אפשר לסמן לייק רק אחרי שהצבעת");
+          return;
+        }
+
+        const currentQuestion = room.questions[room.currentQuestionIndex];
+        if (answer === currentQuestion.correctAnswer) {
+          socket.emit("error", "לייקים הם רק לשקרים");
+          return;
+        }
+        if (!Object.values(room.answers).includes(answer)) {
+          socket.emit("error", "התשובה הזו אינה אחת מהאפשרויות");
+          return;
+        }
+
+        const ownLie = teamLie(room, socket.id)?.answer;
+        if (ownLie !== undefined && isSameLie(ownLie, answer)) {
+          socket.emit("error", "אי אפשר לסמן לייק לשקר שלך");
+          return;
+        }
+
+        // Liked already is as good as liked now
+        accepted = true;
+        const liked = room.likes[socket.id] ?? [];
+        if (liked.some((lie) => isSameLie(lie, answer))) return;
+
+        if (!(await storage.recordLike(code, socket.id, answer))) return;
+
+        const team = room.teams[socket.id];
+        for (const authorId of await storage.getAnswerAuthors(code, answer)) {
+          if (team !== undefined && room.teams[authorId] === team) continue;
+          if (room.settings.likePoints > 0) {
+            await storage.updatePlayerScore(
+              code,
+              authorId,
+              room.settings.likePoints
+            );
+          }
+          await storage.recordStat(code, authorId, "liked");
+        }
+      } catch (error) {
+        socket.emit("error", "נכשל בסימון הלייק");
+        console.error("Like error:", error);
+      } finally {
+        acknowledge(ack, accepted);
+      }
+    });
+
+    socket.on("audience:vote", async (data, ack) => {
+      let accepted = false;
+      try {
+        const { code, selectedAnswer } = voteAnswerSchema.parse(data);
+        const room = await storage.getRoom(code);
+
+        if (
+          !room ||
+          room.state !== "voting" ||
+          !audience.has(code, socket.id)
+        ) {
+          socket.emit("error", "לא ניתן להצביע כרגע");
+          return;
+        }
+
+        if (audience.hasVoted(code, socket.id)) {
+          socket.emit("error", "כבר הצבעת בסבב הזה");
+          return;
+        }
+
+        const currentQuestion = room.questions[room.currentQuestionIndex];
+        const isOffered =
+          selectedAnswer === currentQuestion.correctAnswer ||
+          Object.values(room.answers).includes(selectedAnswer);
+        if (!isOffered) {
+          socket.emit("error", "התשובה הזו אינה אחת מהאפשרויות");
+          return;
+        }
+
+        audience.vote(code, socket.id, selectedAnswer);
+        accepted = true;
+        sendAudienceVotes(code);
+      } catch (error) {
+        socket.emit("error", "נכשל בהצבעה");
+        console.error("Audience vote error:", error);
+      } finally {
+        acknowledge(ack, accepted);
       }
     });
 
     socket.on("host:action", async (data) => {
       try {
-        const { code, action } = hostActionSchema.parse(data);
+        const payload = hostActionSchema.parse(data);
+        const { code, action } = payload;
         const room = await storage.getRoom(code);
 
         if (!room || room.hostId !== socket.id) {
@@ -209,85 +1207,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return;
         }
 
-        if (action === "start") {
+        if (payload.action === "strike") {
+          const authorId = await storage.getSocketId(code, payload.playerId);
+          if (room.state !== "reviewing" || !authorId) {
+            socket.emit("error", "לא ניתן לפסול תשובה כרגע");
+            return;
+          }
+
+          await storage.removeAnswer(code, authorId);
+          io.to(authorId).emit("answer:rejected", {
+            reason: "המארח פסל את התשובה שלך, כתוב משהו אחר",
+          });
+          // The whole team gets to write a new one
+          for (const teammateId of teammatesOf(room, authorId)) {
+            io.to(teammateId).emit("answer:rejected", {
+              reason: "המארח פסל את השקר של הקבוצה, כתבו משהו אחר",
+            });
+          }
+          const playerNames = await storage.getPlayersExcludingHost(code);
+          io.to(code).emit("room:players", playerNames);
+          await sendReviewList(code);
+        } else if (
+          payload.action === "kick" ||
+          payload.action === "ban" ||
+          payload.action === "rename"
+        ) {
+          const targetId = await storage.getSocketId(code, payload.playerId);
+          if (!targetId || targetId === room.hostId) {
+            socket.emit("error", "השחקן לא נמצא");
+            return;
+          }
+
+          if (payload.action === "rename") {
+            const name = await storage.renamePlayer(
+              code,
+              targetId,
+              payload.name
+            );
+            if (name) {
+              io.sockets.sockets
+                .get(targetId)
+                ?.emit("player:renamed", { name });
+            }
+            const playerNames = await storage.getPlayersExcludingHost(code);
+            io.to(code).emit("room:players", playerNames);
+          } else {
+            await expelPlayer(code, targetId, payload.action === "ban");
+          }
+        } else if (action === "start") {
           if (room.currentQuestionIndex >= room.questions.length) {
             socket.emit("error", "אין עוד שאלות");
             return;
           }
 
-          await storage.clearAnswers(code);
-          await storage.updateRoom(code, { state: "question" });
-
-          const currentQuestion = room.questions[room.currentQuestionIndex];
-          console.log(
-            "Current question from room:",
-            JSON.stringify(currentQuestion, null, 2)
-          );
-          const questionData = {
-            question: currentQuestion.question,
-            questionIndex: room.currentQuestionIndex + 1,
-            totalQuestions: room.questions.length,
-            imageUrl: currentQuestion.imageUrl,
-          };
-          console.log(
-            "Sending question data:",
-            JSON.stringify(questionData, null, 2)
-          );
-          io.to(code).emit("game:question", questionData);
+          await startQuestion(code, room.currentQuestionIndex);
         } else if (action === "show_voting") {
-          const answers = await storage.getAllAnswers(code);
-          const currentQuestion = room.questions[room.currentQuestionIndex];
-          const votingOptions = [
-            ...answers.map((a) => ({ answer: a.answer, isCorrect: false })),
-            { answer: currentQuestion.correctAnswer, isCorrect: true },
-          ];
-          // Shuffle the options
-          for (let i = votingOptions.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [votingOptions[i], votingOptions[j]] = [
-              votingOptions[j],
-              votingOptions[i],
-            ];
+          // The first press may only open the review; the next one approves it
+          if (room.state === "question") {
+            await closeQuestion(code);
+          } else {
+            await startVoting(code);
           }
-          await storage.updateRoom(code, { state: "voting" });
-          await storage.clearAnswers(code);
-          io.to(code).emit("game:voting", { answers: votingOptions });
         } else if (action === "reveal") {
-          const currentQuestion = room.questions[room.currentQuestionIndex];
-          const leaderboard = await storage.getLeaderboard(code);
-          await storage.updateRoom(code, { state: "revealing" });
-
-          const resultsData = {
-            correctAnswer: currentQuestion.correctAnswer,
-            imageUrl: currentQuestion.imageUrl,
-            scores: [],
-            leaderboard: leaderboard,
-          };
-          console.log(
-            "Sending results with full data:",
-            JSON.stringify(resultsData, null, 2)
-          );
-          io.to(code).emit("game:results", resultsData);
+          await revealResults(code);
         } else if (action === "next") {
           const newIndex = room.currentQuestionIndex + 1;
 
           if (newIndex >= room.questions.length) {
-            await storage.updateRoom(code, { state: "complete" });
-            io.to(code).emit("game:complete");
-          } else {
-            await storage.clearAnswers(code);
+            clearPhaseTimer(code);
             await storage.updateRoom(code, {
-              currentQuestionIndex: newIndex,
-              state: "question",
-            });
-
-            const nextQuestion = room.questions[newIndex];
-            io.to(code).emit("game:question", {
-              question: nextQuestion.question,
-              questionIndex: newIndex + 1,
-              totalQuestions: room.questions.length,
-              imageUrl: nextQuestion.imageUrl,
+              state: "complete",
+              deadline: null,
             });
+            io.to(code).emit("game:complete", await buildFinalResults(code));
+          } else {
+            await startQuestion(code, newIndex);
           }
         }
 
@@ -298,15 +1292,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
+    socket.on("host:reclaim", async (data) => {
+      try {
+        const { code, hostToken } = reclaimHostSchema.parse(data);
+        const room = await storage.getRoom(code);
+
+        if (!room || room.hostToken !== hostToken) {
+          socket.emit("host:reclaim_failed");
+          return;
+        }
+
+        // The host is back, so the room no longer needs tearing down
+        clearTimeout(hostGraceTimers.get(code));
+        hostGraceTimers.delete(code);
+
+        const previousId = room.hostId;
+        if (previousId !== socket.id) {
+          socketRooms.delete(previousId);
+          io.sockets.sockets.get(previousId)?.leave(code);
+        }
+        await storage.updateRoom(code, { hostId: socket.id });
+        await socket.join(code);
+        socketRooms.set(socket.id, code);
+
+        const playerNames = await storage.getPlayersExcludingHost(code);
+        socket.emit("host:reclaimed", { code, players: playerNames });
+        await sendCurrentPhase(socket, code, room, true);
+
+        console.log(`Host reclaimed room ${code}`);
+      } catch (error) {
+        socket.emit("host:reclaim_failed");
+        console.error("Host reclaim error:", error);
+      }
+    });
+
+    socket.on("host:transfer", async (data) => {
+      try {
+        const { code, playerId } = transferHostSchema.parse(data);
+        const room = await storage.getRoom(code);
+
+        if (!room || room.hostId !== socket.id) {
+          socket.emit("error", "לא מורשה לשלוט בחדר זה");
+          return;
+        }
+
+        const targetId = await storage.getSocketId(code, playerId);
+        const target = targetId && io.sockets.sockets.get(targetId);
+        if (!targetId || !target || room.offline[targetId]) {
+          socket.emit("error", "השחקן אינו מחובר");
+          return;
+        }
+
+        const hostToken = await storage.setHost(code, targetId);
+        if (!hostToken) return;
+
+        // The old host device steps out of the room entirely
+        socketRooms.delete(socket.id);
+        await socket.leave(code);
+        socket.emit("host:revoked");
+
+        // The new host drops out of the roster but keeps their score
+        const playerNames = await storage.getPlayersExcludingHost(code);
+        target.emit("host:granted", { code, hostToken, players: playerNames });
+        await sendCurrentPhase(target, code, room, true);
+        io.to(code).emit("room:players", playerNames);
+
+        // Their absence may complete the round
+        await advanceIfAllAnswered(code);
+        await advanceIfAllVoted(code);
+
+        console.log(`Host of room ${code} handed to ${playerId}`);
+      } catch (error) {
+        socket.emit("error", "נכשל בהעברת השליטה");
+        console.error("Host transfer error:", error);
+      }
+    });
+
     socket.on("disconnect", async () => {
       console.log(`Player disconnected: ${socket.id}`);
 
-      // Find rooms where this socket was a player and clean up
-      // Note: In a real app, you'd want to track socket-to-room mapping
-      // For simplicity, we'll just handle host disconnection cleanup
-      // when the room becomes inaccessible
+      try {
+        // Spectators leave nothing behind but a smaller crowd
+        const audienceCode = audience.remove(socket.id);
+        if (audienceCode) {
+          sendAudienceVotes(audienceCode);
+          return;
+        }
+
+        const code = socketRooms.get(socket.id);
+        socketRooms.delete(socket.id);
+        if (!code) return;
+
+        const room = await storage.getRoom(code);
+        if (!room) return;
+
+        if (room.hostId === socket.id) {
+          scheduleHostGrace(code);
+          return;
+        }
+
+        // Even in the lobby the seat is kept, so a phone that slept or lost
+        // Wi-Fi can rejoin; only leaving or a kick gives it up
+        await storage.setPlayerConnected(code, socket.id, false);
+
+        const playerNames = await storage.getPlayersExcludingHost(code);
+        io.to(code).emit("room:players", playerNames);
+
+        // The remaining players may now all have answered or voted
+        await advanceIfAllAnswered(code);
+        await advanceIfAllVoted(code);
+      } catch (error) {
+        console.error("Disconnect cleanup error:", error);
+      }
     });
   });
 
+  // Timers and sockets don't survive a restart, but rooms kept in the
+  // database do: everyone in them has to rejoin, and countdowns carry on
+  // from their stored deadlines
+  const recoverRooms = async () => {
+    for (const code of await storage.getRoomCodes()) {
+      const room = await storage.getRoom(code);
+      if (!room) continue;
+
+      for (const socketId of Object.keys(room.players)) {
+        if (socketId !== room.hostId) {
+          await storage.setPlayerConnected(code, socketId, false);
+        }
+      }
+      scheduleHostGrace(code);
+      console.log(`Room ${code} recovered in state ${room.state}`);
+
+      if (room.deadline === null) continue;
+      const seconds = Math.max(1, (room.deadline - Date.now()) / 1000);
+      if (room.state === "question") {
+        schedulePhaseTimer(code, seconds, closeQuestion);
+      } else if (room.state === "voting") {
+        schedulePhaseTimer(code, seconds, revealResults);
+      }
+    }
+  };
+  recoverRooms().catch((error) => console.error("Room recovery error:", error));
+
   return httpServer;
 }
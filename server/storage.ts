@@ -1,31 +1,78 @@
-import { type Room, type Player } from "@shared/schema";
+import {
+  type Room,
+  type Player,
+  type Question,
+  type PlayerSummary,
+  type RoomSettings,
+  type Standing,
+  type TeamStanding,
+  type Award,
+  type QuestionPack,
+  type QuestionPackInput,
+  type QuestionPackSummary,
+} from "@shared/schema";
+import { isSameLie, normalizeAnswer } from "@shared/answerMatch";
 import { randomUUID } from "crypto";
+import { createDb } from "./db";
+import { DbStorage } from "./dbStorage";
+import { findFreeRoomCode } from "./roomCodes";
 
 export interface IStorage {
   // Room management
   createRoom(
     hostId: string,
-    questions: Array<{
-      question: string;
-      correctAnswer: string;
-      imageUrl?: string;
-    }>
-  ): Promise<string>;
+    questions: Question[],
+    settings: RoomSettings
+  ): Promise<{ code: string; hostToken: string }>;
+  setHost(code: string, socketId: string): Promise<string | undefined>;
   getRoom(code: string): Promise<Room | undefined>;
   updateRoom(code: string, updates: Partial<Room>): Promise<void>;
   deleteRoom(code: string): Promise<void>;
+  touchRoom(code: string): Promise<void>;
+  getRoomCount(): Promise<number>;
+  getRoomCodes(): Promise<string[]>;
+  getExpiredRooms(
+    idleBefore: number,
+    completeBefore: number
+  ): Promise<string[]>;
 
   // Player management
-  addPlayerToRoom(code: string, socketId: string, name: string): Promise<void>;
+  addPlayerToRoom(
+    code: string,
+    socketId: string,
+    name: string,
+    deviceId?: string
+  ): Promise<{ playerId: string; playerToken: string; name: string }>;
+  rebindPlayer(
+    code: string,
+    playerToken: string,
+    socketId: string
+  ): Promise<string | undefined>;
   removePlayerFromRoom(code: string, socketId: string): Promise<void>;
+  setPlayerConnected(
+    code: string,
+    socketId: string,
+    connected: boolean
+  ): Promise<void>;
+  renamePlayer(
+    code: string,
+    socketId: string,
+    name: string
+  ): Promise<string | undefined>;
+  banPlayer(code: string, socketId: string): Promise<void>;
+  isBanned(code: string, name: string, deviceId?: string): Promise<boolean>;
   getPlayerName(code: string, socketId: string): Promise<string | undefined>;
-  getPlayersExcludingHost(code: string): Promise<string[]>;
+  getSocketId(code: string, playerId: string): Promise<string | undefined>;
+  getPlayersExcludingHost(code: string): Promise<PlayerSummary[]>;
   getPlayerCountExcludingHost(code: string): Promise<number>;
+  setPlayerTeam(code: string, socketId: string, team: number): Promise<void>;
 
   // Answer management
   submitAnswer(code: string, socketId: string, answer: string): Promise<void>;
+  removeAnswer(code: string, socketId: string): Promise<void>;
   clearAnswers(code: string): Promise<void>;
   getAllAnswers(code: string): Promise<Array<{ name: string; answer: string }>>;
+  getAnswerAuthors(code: string, answer: string): Promise<string[]>;
   getAnswerCount(code: string): Promise<number>;
   getPlayerCount(code: string): Promise<number>;
 
@@ -35,45 +82,216 @@ export interface IStorage {
     socketId: string,
     points: number
   ): Promise<void>;
-  getLeaderboard(code: string): Promise<Array<{ name: string; score: number }>>;
+  getRoundScores(
+    code: string
+  ): Promise<Array<{ name: string; score: number; gained: number }>>;
+  clearRoundScores(code: string): Promise<void>;
+  getLeaderboard(code: string): Promise<Standing[]>;
+  getTeamLeaderboard(code: string): Promise<TeamStanding[]>;
+  recordStat(
+    code: string,
+    socketId: string,
+    stat: "fooled" | "correct" | "liked"
+  ): Promise<void>;
+  getAwards(code: string): Promise<Award[]>;
+
+  // Voting; false when the player had already voted, so only the first of
+  // two racing votes gets scored
+  recordVote(code: string, socketId: string, answer: string): Promise<boolean>;
+  getVoteCount(code: string): Promise<number>;
   clearVotes(code: string): Promise<void>;
+
+  // Likes, any number per player and round; false for a repeat like
+  recordLike(code: string, socketId: string, answer: string): Promise<boolean>;
+  clearLikes(code: string): Promise<void>;
+
+  // Question packs, listed newest first
+  listPacks(): Promise<QuestionPackSummary[]>;
+  getPack(id: string): Promise<QuestionPack | undefined>;
+  createPack(
+    pack: QuestionPackInput
+  ): Promise<{ pack: QuestionPack; ownerToken: string }>;
+  isPackOwner(id: string, ownerToken: string): Promise<boolean>;
+  updatePack(
+    id: string,
+    pack: QuestionPackInput
+  ): Promise<QuestionPack | undefined>;
+  deletePack(id: string): Promise<boolean>;
 }
 
-export class MemStorage implements IStorage {
-  private rooms: Map<string, Room> = new Map();
+const MAX_NAME_LENGTH = 30;
 
-  private generateRoomCode(): string {
-    let code: string;
-    do {
-      code = Math.floor(1000 + Math.random() * 9000).toString();
-    } while (this.rooms.has(code));
-    return code;
+// Names that only differ in case, spacing or punctuation count as taken
+export function isSameName(a: string, b: string): boolean {
+  return normalizeAnswer(a) === normalizeAnswer(b);
+}
+
+// A second "Dan" in the room becomes "Dan 2"
+export function uniqueName(name: string, taken: string[]): string {
+  const isTaken = (candidate: string) =>
+    taken.some((other) => isSameName(other, candidate));
+  if (!isTaken(name)) return name;
+
+  for (let n = 2; ; n++) {
+    const suffix = ` ${n}`;
+    const candidate = name.slice(0, MAX_NAME_LENGTH - suffix.length) + suffix;
+    if (!isTaken(candidate)) return candidate;
   }
+}
+
+// Drop blank questions, then apply the room's shuffle and length settings
+export function prepareQuestions(
+  questions: Question[],
+  settings: RoomSettings
+): Question[] {
+  let roomQuestions = questions.filter(
+    (q) => q.question.trim().length > 0 && q.correctAnswer.trim().length > 0
+  );
+  if (settings.shuffleQuestions) {
+    roomQuestions = [...roomQuestions];
+    for (let i = roomQuestions.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [roomQuestions[i], roomQuestions[j]] = [
+        roomQuestions[j],
+        roomQuestions[i],
+      ];
+    }
+  }
+  if (settings.maxQuestions !== null) {
+    roomQuestions = roomQuestions.slice(0, settings.maxQuestions);
+  }
+  return roomQuestions;
+}
+
+// Sort by score; equal scores share a rank and the next rank skips (1, 2, 2, 4)
+export function rankStandings<T extends { name: string; score: number }>(
+  entries: T[]
+): Array<T & { rank: number }> {
+  const standings = entries
+    .map((entry) => ({ ...entry, rank: 0 }))
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+  standings.forEach((standing, i) => {
+    const previous = standings[i - 1];
+    standing.rank =
+      previous && previous.score === standing.score ? previous.rank : i + 1;
+  });
+  return standings;
+}
+
+// Total each team's members and rank the teams; a team nobody joined still
+// shows up with no points
+export function rankTeams(
+  teamNames: string[],
+  members: Array<{
+    team: number | null;
+    name: string;
+    score: number;
+    gained: number;
+  }>
+): TeamStanding[] {
+  return rankStandings(
+    teamNames.map((name, team) => {
+      const inTeam = members.filter((member) => member.team === team);
+      return {
+        team,
+        name,
+        score: inTeam.reduce((sum, member) => sum + member.score, 0),
+        gained: inTeam.reduce((sum, member) => sum + member.gained, 0),
+        members: inTeam.map((member) => member.name),
+      };
+    })
+  );
+}
+
+// Whoever leads each stat wins its award; nobody wins a stat of zero
+export function pickAwards(
+  entries: Array<{
+    id: string;
+    name: string;
+    fooled: number;
+    correct: number;
+    liked: number;
+  }>
+): Award[] {
+  const kinds: Array<[Award["kind"], "fooled" | "correct" | "liked"]> = [
+    ["best_liar", "fooled"],
+    ["best_detective", "correct"],
+    ["crowd_favourite", "liked"],
+  ];
+  const awards: Award[] = [];
+  for (const [kind, stat] of kinds) {
+    const value = Math.max(0, ...entries.map((entry) => entry[stat]));
+    if (value === 0) continue;
+
+    awards.push({
+      kind,
+      value,
+      winners: entries
+        .filter((entry) => entry[stat] === value)
+        .map(({ id, name }) => ({ id, name })),
+    });
+  }
+  return awards;
+}
+
+export function summarizePack({
+  questions,
+  ...pack
+}: QuestionPack): QuestionPackSummary {
+  return { ...pack, questionCount: questions.length };
+}
+
+export class MemStorage implements IStorage {
+  private rooms: Map<string, Room> = new Map();
+  private packs: Map<string, QuestionPack> = new Map();
+  private packOwners: Map<string, string> = new Map(); // pack id -> owner token
 
   async createRoom(
     hostId: string,
-    questions: Array<{
-      question: string;
-      correctAnswer: string;
-      imageUrl?: string;
-    }>
-  ): Promise<string> {
-    const code = this.generateRoomCode();
+    questions: Question[],
+    settings: RoomSettings
+  ): Promise<{ code: string; hostToken: string }> {
+    const code = await findFreeRoomCode(async (code) => this.rooms.has(code));
+    const hostToken = randomUUID();
+
     const room: Room = {
       code,
       hostId,
-      questions: questions.filter(
-        (q) => q.question.trim().length > 0 && q.correctAnswer.trim().length > 0
-      ),
+      hostToken,
+      questions: prepareQuestions(questions, settings),
       currentQuestionIndex: 0,
       players: {},
       answers: {},
       scores: {},
+      roundScores: {},
+      offline: {},
+      votes: {},
+      likes: {},
+      tokens: {},
+      playerIds: {},
+      stats: {},
+      devices: {},
+      teams: {},
+      bans: [],
+      settings,
+      deadline: null,
       state: "waiting",
+      lastActivity: Date.now(),
     };
 
     this.rooms.set(code, room);
-    return code;
+    return { code, hostToken };
+  }
+
+  async setHost(code: string, socketId: string): Promise<string | undefined> {
+    const room = this.rooms.get(code);
+    if (!room) return undefined;
+
+    // A fresh token locks the previous host device out
+    room.hostId = socketId;
+    room.hostToken = randomUUID();
+    return room.hostToken;
   }
 
   async getRoom(code: string): Promise<Room | undefined> {
@@ -91,22 +309,158 @@ export class MemStorage implements IStorage {
     this.rooms.delete(code);
   }
 
+  async touchRoom(code: string): Promise<void> {
+    const room = this.rooms.get(code);
+    if (room) {
+      room.lastActivity = Date.now();
+    }
+  }
+
+  async getRoomCount(): Promise<number> {
+    return this.rooms.size;
+  }
+
+  async getRoomCodes(): Promise<string[]> {
+    return Array.from(this.rooms.keys());
+  }
+
+  async getExpiredRooms(
+    idleBefore: number,
+    completeBefore: number
+  ): Promise<string[]> {
+    // Finished games go sooner than ones that merely went quiet
+    return Array.from(this.rooms.values())
+      .filter(
+        (room) =>
+          room.lastActivity < idleBefore ||
+          (room.state === "complete" && room.lastActivity < completeBefore)
+      )
+      .map((room) => room.code);
+  }
+
   async addPlayerToRoom(
+    code: string,
+    socketId: string,
+    name: string,
+    deviceId?: string
+  ): Promise<{ playerId: string; playerToken: string; name: string }> {
+    const playerId = randomUUID();
+    const playerToken = randomUUID();
+    const room = this.rooms.get(code);
+    if (!room) return { playerId, playerToken, name };
+
+    const finalName = uniqueName(name.trim(), Object.values(room.players));
+    room.players[socketId] = finalName;
+    room.playerIds[socketId] = playerId;
+    room.tokens[playerToken] = socketId;
+    if (deviceId) room.devices[socketId] = deviceId;
+    return { playerId, playerToken, name: finalName };
+  }
+
+  async renamePlayer(
     code: string,
     socketId: string,
     name: string
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     const room = this.rooms.get(code);
-    if (room) {
-      room.players[socketId] = name.trim();
+    if (!room || !room.players[socketId]) return undefined;
+
+    const others = Object.entries(room.players)
+      .filter(([id]) => id !== socketId)
+      .map(([, other]) => other);
+    room.players[socketId] = uniqueName(name.trim(), others);
+    return room.players[socketId];
+  }
+
+  async banPlayer(code: string, socketId: string): Promise<void> {
+    const room = this.rooms.get(code);
+    if (room && room.players[socketId]) {
+      room.bans.push({
+        name: room.players[socketId],
+        deviceId: room.devices[socketId] ?? null,
+      });
     }
   }
 
+  async isBanned(
+    code: string,
+    name: string,
+    deviceId?: string
+  ): Promise<boolean> {
+    const room = this.rooms.get(code);
+    if (!room) return false;
+
+    return room.bans.some(
+      (ban) =>
+        isSameName(ban.name, name) || (!!deviceId && ban.deviceId === deviceId)
+    );
+  }
+
+  async rebindPlayer(
+    code: string,
+    playerToken: string,
+    socketId: string
+  ): Promise<string | undefined> {
+    const room = this.rooms.get(code);
+    const previousId = room?.tokens[playerToken];
+    if (!room || !previousId || !room.players[previousId]) return undefined;
+
+    // Move every per-player entry over to the new socket
+    for (const record of [
+      room.players,
+      room.answers,
+      room.scores,
+      room.roundScores,
+      room.votes,
+      room.likes,
+      room.playerIds,
+      room.stats,
+      room.devices,
+      room.teams,
+    ] as Array<Record<string, unknown>>) {
+      if (previousId in record) {
+        record[socketId] = record[previousId];
+        if (previousId !== socketId) delete record[previousId];
+      }
+    }
+    delete room.offline[previousId];
+    room.tokens[playerToken] = socketId;
+
+    return previousId;
+  }
+
   async removePlayerFromRoom(code: string, socketId: string): Promise<void> {
     const room = this.rooms.get(code);
     if (room) {
       delete room.players[socketId];
       delete room.answers[socketId];
+      delete room.offline[socketId];
+      delete room.scores[socketId];
+      delete room.roundScores[socketId];
+      delete room.votes[socketId];
+      delete room.likes[socketId];
+      delete room.playerIds[socketId];
+      delete room.stats[socketId];
+      delete room.devices[socketId];
+      delete room.teams[socketId];
+      for (const [playerToken, id] of Object.entries(room.tokens)) {
+        if (id === socketId) delete room.tokens[playerToken];
+      }
+    }
+  }
+
+  async setPlayerConnected(
+    code: string,
+    socketId: string,
+    connected: boolean
+  ): Promise<void> {
+    const room = this.rooms.get(code);
+    if (room && room.players[socketId]) {
+      if (connected) {
+        delete room.offline[socketId];
+      } else {
+        room.offline[socketId] = true;
+      }
     }
   }
 
@@ -118,6 +472,18 @@ export class MemStorage implements IStorage {
     return room?.players[socketId];
   }
 
+  async getSocketId(
+    code: string,
+    playerId: string
+  ): Promise<string | undefined> {
+    const room = this.rooms.get(code);
+    if (!room) return undefined;
+
+    return Object.entries(room.playerIds).find(
+      ([, id]) => id === playerId
+    )?.[0];
+  }
+
   async submitAnswer(
     code: string,
     socketId: string,
@@ -129,6 +495,13 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async removeAnswer(code: string, socketId: string): Promise<void> {
+    const room = this.rooms.get(code);
+    if (room) {
+      delete room.answers[socketId];
+    }
+  }
+
   async clearAnswers(code: string): Promise<void> {
     const room = this.rooms.get(code);
     if (room) {
@@ -148,9 +521,24 @@ export class MemStorage implements IStorage {
     }));
   }
 
+  async getAnswerAuthors(code: string, answer: string): Promise<string[]> {
+    const room = this.rooms.get(code);
+    if (!room) return [];
+
+    // Matching lies were merged into one option, so credit all their authors
+    return Object.entries(room.answers)
+      .filter(([, lie]) => isSameLie(lie, answer))
+      .map(([socketId]) => socketId);
+  }
+
   async getAnswerCount(code: string): Promise<number> {
     const room = this.rooms.get(code);
-    return room ? Object.keys(room.answers).length : 0;
+    if (!room) return 0;
+
+    // Answers from disconnected players (or the host) don't count toward completeness
+    return Object.keys(room.answers).filter(
+      (socketId) => socketId !== room.hostId && !room.offline[socketId]
+    ).length;
   }
 
   async getPlayerCount(code: string): Promise<number> {
@@ -162,20 +550,38 @@ export class MemStorage implements IStorage {
     const room = this.rooms.get(code);
     if (!room) return 0;
 
-    // Count players excluding the host
+    // Count connected players excluding the host
     return Object.keys(room.players).filter(
-      (socketId) => socketId !== room.hostId
+      (socketId) => socketId !== room.hostId && !room.offline[socketId]
     ).length;
   }
 
-  async getPlayersExcludingHost(code: string): Promise<string[]> {
+  async getPlayersExcludingHost(code: string): Promise<PlayerSummary[]> {
     const room = this.rooms.get(code);
     if (!room) return [];
 
-    // Return player names excluding the host
+    // Return the roster excluding the host
     return Object.entries(room.players)
       .filter(([socketId]) => socketId !== room.hostId)
-      .map(([, name]) => name);
+      .map(([socketId, name]) => ({
+        id: room.playerIds[socketId],
+        name,
+        connected: !room.offline[socketId],
+        hasAnswered: socketId in room.answers,
+        hasVoted: socketId in room.votes,
+        team: room.teams[socketId] ?? null,
+      }));
+  }
+
+  async setPlayerTeam(
+    code: string,
+    socketId: string,
+    team: number
+  ): Promise<void> {
+    const room = this.rooms.get(code);
+    if (room && room.players[socketId]) {
+      room.teams[socketId] = team;
+    }
   }
 
   async updatePlayerScore(
@@ -189,31 +595,197 @@ export class MemStorage implements IStorage {
         room.scores[socketId] = 0;
       }
       room.scores[socketId] += points;
+      room.roundScores[socketId] = (room.roundScores[socketId] || 0) + points;
     }
   }
 
-  async getLeaderboard(
+  async getRoundScores(
     code: string
-  ): Promise<Array<{ name: string; score: number }>> {
+  ): Promise<Array<{ name: string; score: number; gained: number }>> {
+    const room = this.rooms.get(code);
+    if (!room) return [];
+
+    return Object.entries(room.players)
+      .filter(([socketId]) => socketId !== room.hostId)
+      .map(([socketId, name]) => ({
+        name,
+        score: room.scores[socketId] || 0,
+        gained: room.roundScores[socketId] || 0,
+      }))
+      .sort((a, b) => b.gained - a.gained);
+  }
+
+  async clearRoundScores(code: string): Promise<void> {
+    const room = this.rooms.get(code);
+    if (room) {
+      room.roundScores = {};
+    }
+  }
+
+  async getLeaderboard(code: string): Promise<Standing[]> {
+    const room = this.rooms.get(code);
+    if (!room) return [];
+
+    return rankStandings(
+      Object.entries(room.players)
+        // A player handed the host role keeps their place in the standings
+        .filter(
+          ([socketId]) => socketId !== room.hostId || socketId in room.scores
+        )
+        .map(([socketId, name]) => ({
+          id: room.playerIds[socketId],
+          name,
+          score: room.scores[socketId] || 0,
+          gained: room.roundScores[socketId] || 0,
+        }))
+    );
+  }
+
+  async getTeamLeaderboard(code: string): Promise<TeamStanding[]> {
     const room = this.rooms.get(code);
     if (!room) return [];
 
-    return Object.entries(room.scores)
-      .map(([socketId, score]) => ({
-        name: room.players[socketId] || "Unknown",
-        score: score || 0,
+    return rankTeams(
+      room.settings.teams,
+      Object.entries(room.players).map(([socketId, name]) => ({
+        team: room.teams[socketId] ?? null,
+        name,
+        score: room.scores[socketId] || 0,
+        gained: room.roundScores[socketId] || 0,
       }))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 3); // Top 3 players
+    );
+  }
+
+  async recordStat(
+    code: string,
+    socketId: string,
+    stat: "fooled" | "correct" | "liked"
+  ): Promise<void> {
+    const room = this.rooms.get(code);
+    if (!room) return;
+
+    const stats = (room.stats[socketId] ??= {
+      fooled: 0,
+      correct: 0,
+      liked: 0,
+    });
+    stats[stat]++;
+  }
+
+  async getAwards(code: string): Promise<Award[]> {
+    const room = this.rooms.get(code);
+    if (!room) return [];
+
+    return pickAwards(
+      Object.entries(room.stats)
+        .filter(([socketId]) => socketId in room.players)
+        .map(([socketId, stats]) => ({
+          id: room.playerIds[socketId],
+          name: room.players[socketId],
+          ...stats,
+        }))
+    );
+  }
+
+  async recordVote(
+    code: string,
+    socketId: string,
+    answer: string
+  ): Promise<boolean> {
+    const room = this.rooms.get(code);
+    if (!room || !room.players[socketId] || socketId in room.votes) {
+      return false;
+    }
+    room.votes[socketId] = answer;
+    return true;
+  }
+
+  async getVoteCount(code: string): Promise<number> {
+    const room = this.rooms.get(code);
+    if (!room) return 0;
+
+    // Only connected players' votes count toward completeness
+    return Object.keys(room.votes).filter(
+      (socketId) => socketId !== room.hostId && !room.offline[socketId]
+    ).length;
   }
 
   async clearVotes(code: string): Promise<void> {
     const room = this.rooms.get(code);
     if (room) {
-      // Clear answers for next voting phase
-      room.answers = {};
+      // Clear votes for next voting phase
+      room.votes = {};
+    }
+  }
+
+  async recordLike(
+    code: string,
+    socketId: string,
+    answer: string
+  ): Promise<boolean> {
+    const room = this.rooms.get(code);
+    if (!room || !room.players[socketId]) return false;
+
+    const liked = (room.likes[socketId] ??= []);
+    if (liked.includes(answer)) return false;
+    liked.push(answer);
+    return true;
+  }
+
+  async clearLikes(code: string): Promise<void> {
+    const room = this.rooms.get(code);
+    if (room) {
+      room.likes = {};
     }
   }
+
+  async listPacks(): Promise<QuestionPackSummary[]> {
+    return Array.from(this.packs.values())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(summarizePack);
+  }
+
+  async getPack(id: string): Promise<QuestionPack | undefined> {
+    return this.packs.get(id);
+  }
+
+  async createPack(
+    pack: QuestionPackInput
+  ): Promise<{ pack: QuestionPack; ownerToken: string }> {
+    const created = {
+      ...pack,
+      id: randomUUID(),
+      updatedAt: new Date().toISOString(),
+    };
+    const ownerToken = randomUUID();
+    this.packs.set(created.id, created);
+    this.packOwners.set(created.id, ownerToken);
+    return { pack: created, ownerToken };
+  }
+
+  async isPackOwner(id: string, ownerToken: string): Promise<boolean> {
+    return ownerToken !== "" && this.packOwners.get(id) === ownerToken;
+  }
+
+  async updatePack(
+    id: string,
+    pack: QuestionPackInput
+  ): Promise<QuestionPack | undefined> {
+    if (!this.packs.has(id)) return undefined;
+
+    const updated = { ...pack, id, updatedAt: new Date().toISOString() };
+    this.packs.set(id, updated);
+    return updated;
+  }
+
+  async deletePack(id: string): Promise<boolean> {
+    this.packOwners.delete(id);
+    return this.packs.delete(id);
+  }
 }
 
-export const storage = new MemStorage();
+// STORAGE=postgres keeps games in DATABASE_URL; in-memory is the default
+export const storage: IStorage =
+  process.env.STORAGE === "postgres"
+    ? new DbStorage(createDb())
+    : new MemStorage();
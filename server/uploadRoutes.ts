@@ -0,0 +1,85 @@
+import express, { type Express } from "express";
+import multer from "multer";
+import { UPLOADS_PATH } from "@shared/media";
+import { route } from "./http";
+import {
+  MAX_UPLOAD_BYTES,
+  UPLOAD_DIR,
+  hasUploadSpace,
+  saveImage,
+} from "./imageStore";
+import { FailureThrottle } from "./joinThrottle";
+
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+// Uploads need no account, so each address gets a budget instead; every
+// upload counts against it, accepted or not
+const UPLOAD_WINDOW_MS = 10 * 60_000;
+const MAX_UPLOADS_PER_IP = 30;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  fileFilter: (_req, file, accept) =>
+    accept(null, ACCEPTED_TYPES.includes(file.mimetype)),
+});
+
+// Image uploads for questions: POST /api/uploads with an "image" field, then
+// the stored variants are served from /uploads
+export function registerUploadRoutes(app: Express) {
+  const uploadThrottle = new FailureThrottle(UPLOAD_WINDOW_MS);
+
+  app.post(
+    "/api/uploads",
+    // Checked before the body is read, so refused uploads cost nothing
+    (req, res, next) => {
+      const key = `ip:${req.ip}`;
+      if (uploadThrottle.isBlocked(key, MAX_UPLOADS_PER_IP)) {
+        res.status(429).json({ message: "Too many uploads" });
+        return;
+      }
+      hasUploadSpace().then((hasSpace) => {
+        if (!hasSpace) {
+          res.status(507).json({ message: "Upload storage is full" });
+          return;
+        }
+        uploadThrottle.prune();
+        uploadThrottle.recordFailure(key);
+        next();
+      }, next);
+    },
+    (req, res, next) =>
+      upload.single("image")(req, res, (error: unknown) => {
+        if (error instanceof multer.MulterError) {
+          res
+            .status(error.code === "LIMIT_FILE_SIZE" ? 413 : 400)
+            .json({ message: error.message });
+          return;
+        }
+        next(error);
+      }),
+    route(async (req, res) => {
+      if (!req.file) {
+        res.status(400).json({ message: "Expected a JPEG, PNG, WebP or GIF" });
+        return;
+      }
+
+      const image = await saveImage(req.file.buffer);
+      if (!image) {
+        res.status(400).json({ message: "Not a supported image" });
+        return;
+      }
+      res.status(201).json(image);
+    })
+  );
+
+  // Variants never change once written, since the folder is named by content
+  app.use(
+    UPLOADS_PATH,
+    express.static(UPLOAD_DIR, { immutable: true, maxAge: "1y" }),
+    // Keep missing files from falling through to the client app
+    (_req, res) => {
+      res.status(404).end();
+    }
+  );
+}
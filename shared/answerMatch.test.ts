@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  isSameLie,
+  matchesAnswer,
+  matchesAnyAnswer,
+  normalizeAnswer,
+} from "./answerMatch";
+
+test("normalizes niqqud, final letters, case and punctuation", () => {
+  assert.equal(normalizeAnswer("שָׁלוֹם!"), "שלומ");
+  assert.equal(normalizeAnswer("  Café   OLÉ "), "cafe ole");
+  assert.equal(normalizeAnswer("1,000,000"), "1000000");
+  assert.equal(normalizeAnswer("1,5"), "1.5");
+  assert.equal(normalizeAnswer("-5"), "-5");
+  assert.equal(normalizeAnswer("tel-aviv"), "telaviv");
+});
+
+test("forgives typos only in longer words", () => {
+  assert.ok(matchesAnswer("Jerusalm", "Jerusalem"));
+  assert.ok(matchesAnswer("ice cream", "icecream"));
+  assert.ok(!matchesAnswer("Parks", "Paris"));
+});
+
+test("compares numbers by value", () => {
+  assert.ok(matchesAnswer("3.0", "3"));
+  assert.ok(matchesAnswer("1000000", "1,000,000"));
+  assert.ok(!matchesAnswer("1.5", "15"));
+  assert.ok(!matchesAnswer("13 שנים", "12 שנים"));
+  assert.ok(!matchesAnswer("100,000", "1,000,000"));
+});
+
+test("keeps the sign of a number", () => {
+  assert.ok(!matchesAnswer("-5", "5"));
+  assert.ok(matchesAnswer("-5", "-5"));
+});
+
+test("sees a bare number dressed up with words", () => {
+  assert.ok(matchesAnswer("8 legs", "8"));
+  assert.ok(matchesAnswer("8", "8 רגליים"));
+  assert.ok(!matchesAnswer("8 legs", "8 arms"));
+});
+
+test("checks every accepted form of the answer", () => {
+  assert.ok(matchesAnyAnswer("eight", ["8", "שמונה", "eight"]));
+  assert.ok(!matchesAnyAnswer("nine", ["8", "שמונה", "eight"]));
+});
+
+test("merges lies that differ only in spacing and punctuation", () => {
+  assert.ok(isSameLie("Tel Aviv!", "tel-aviv"));
+  assert.ok(!isSameLie("Paris", "Parks"));
+});
+
+test("matches masked and punctuation-only lies only to themselves", () => {
+  assert.ok(isSameLie("****", "****"));
+  assert.ok(!isSameLie("****", "?!"));
+  assert.ok(!isSameLie("****", "*****"));
+});
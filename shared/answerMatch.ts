@@ -0,0 +1,117 @@
+// Hebrew final letters and their regular forms
+const FINAL_LETTERS: Record<string, string> = {
+  ך: "כ",
+  ם: "מ",
+  ן: "נ",
+  ף: "פ",
+  ץ: "צ",
+};
+
+const PUNCTUATION = /[!-\/:-@[-`{-~\u00A1-\u00BF\u05F3\u05F4\u2010-\u205E]/g;
+
+const isDigit = (char: string | undefined) =>
+  char !== undefined && char >= "0" && char <= "9";
+
+const isWordChar = (char: string | undefined) =>
+  char !== undefined && /[0-9a-z\u05D0-\u05EA]/.test(char);
+
+// Reduce an answer to the form players "meant": no niqqud, no final-letter
+// forms, no punctuation, no Latin case or accents, single spaces. Numbers
+// keep their meaning: "1,000" is 1000, "1.5" and "1,5" stay 1.5, and "-5"
+// keeps its sign (a dash inside "tel-aviv" or "1-2" is still dropped).
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0591-\u05C7]/g, "") // Hebrew cantillation and niqqud
+    .replace(/[\u0300-\u036f]/g, "") // Latin accents
+    .replace(/[ךםןףץ]/g, (letter) => FINAL_LETTERS[letter])
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}(?!\d))/g, "$1") // thousands separators
+    .replace(PUNCTUATION, (mark, offset: number, whole: string) => {
+      const before = whole[offset - 1];
+      const after = whole[offset + 1];
+      if ((mark === "." || mark === ",") && isDigit(before) && isDigit(after)) {
+        return ".";
+      }
+      return mark === "-" && isDigit(after) && !isWordChar(before) ? "-" : "";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Spacing differences ("ice cream" / "icecream", "tel-aviv") aren't real ones
+function compact(text: string): string {
+  return normalizeAnswer(text).replace(/ /g, "");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Short words must match exactly ("Paris" is not "Parks"); longer ones may
+// be off by a typo or two
+function allowedTypos(length: number): number {
+  if (length <= 5) return 0;
+  if (length <= 9) return 1;
+  return 2;
+}
+
+// The numbers in an answer, in order, by value ("3.0" is 3, "007" is 7)
+function numbersIn(text: string): string[] {
+  return (normalizeAnswer(text).match(/-?\d+(\.\d+)?/g) ?? []).map((number) =>
+    String(Number(number))
+  );
+}
+
+// Whether a submitted lie is really the true answer in disguise
+export function matchesAnswer(submitted: string, answer: string): boolean {
+  const compactA = compact(submitted);
+  const compactB = compact(answer);
+  if (compactA.length === 0 || compactB.length === 0) return false;
+
+  // A number off by one digit is a different answer ("12 שנים", "13 שנים")
+  const numbersA = numbersIn(submitted);
+  if (numbersA.join(" ") !== numbersIn(answer).join(" ")) return false;
+
+  const lettersA = compactA.replace(/[\d.-]/g, "");
+  const lettersB = compactB.replace(/[\d.-]/g, "");
+  if (lettersA === lettersB) return true;
+  if (numbersA.length > 0) {
+    // "8 legs" for "8" is the number with a word around it; otherwise the
+    // words around numbers are short and telling, so they match exactly
+    return lettersA.length === 0 || lettersB.length === 0;
+  }
+
+  return (
+    editDistance(lettersA, lettersB) <=
+    allowedTypos(Math.min(lettersA.length, lettersB.length))
+  );
+}
+
+// Whether a lie is the true answer or any other accepted form of it
+export function matchesAnyAnswer(
+  submitted: string,
+  answers: string[]
+): boolean {
+  return answers.some((answer) => matchesAnswer(submitted, answer));
+}
+
+// Whether two lies should be shown as one voting option
+export function isSameLie(a: string, b: string): boolean {
+  if (a === b) return true;
+  const compactA = compact(a);
+  // Lies that are all punctuation or all stars only match themselves
+  return compactA.length > 0 && compactA === compact(b);
+}
@@ -0,0 +1,66 @@
+import type { Media, MediaType } from "./schema";
+
+const AUDIO_EXTENSIONS = ["mp3", "wav", "ogg", "oga", "m4a", "aac", "flac"];
+const VIDEO_EXTENSIONS = ["mp4", "webm", "ogv", "mov", "m4v"];
+
+// Guess the kind of media from the URL's file extension; images by default
+export function mediaTypeOf(url: string): MediaType {
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  if (extension && AUDIO_EXTENSIONS.includes(extension)) return "audio";
+  if (extension && VIDEO_EXTENSIONS.includes(extension)) return "video";
+  return "image";
+}
+
+// "https://..." or, when the extension doesn't tell, "audio: https://..."
+export function parseMediaRef(text: string): Media | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const typed = trimmed.match(/^(image|audio|video)\s*:\s*(.+)$/i);
+  if (typed) {
+    return { type: typed[1].toLowerCase() as MediaType, url: typed[2].trim() };
+  }
+  return { type: mediaTypeOf(trimmed), url: trimmed };
+}
+
+export function formatMediaRef(media: Media): string {
+  return media.type === mediaTypeOf(media.url)
+    ? media.url
+    : `${media.type}: ${media.url}`;
+}
+
+export function isWebUrl(url: string): boolean {
+  return /^(https?:\/\/|\/)/.test(url);
+}
+
+// Uploaded images are served from here, re-encoded as WebP at each width
+export const UPLOADS_PATH = "/uploads";
+export const IMAGE_VARIANTS = { thumb: 200, medium: 800, large: 1600 } as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+export type UploadedImage = {
+  id: string;
+  url: string; // the large variant, what a question stores
+  width: number;
+  height: number;
+  variants: Record<ImageVariant, string>;
+};
+
+export function imageVariantPath(id: string, variant: ImageVariant): string {
+  return `${UPLOADS_PATH}/${id}/${variant}.webp`;
+}
+
+// The same uploaded image at another size; any other URL comes back as is
+export function imageVariantUrl(url: string, variant: ImageVariant): string {
+  const match = url.match(
+    /^\/uploads\/([0-9a-f]+)\/(thumb|medium|large)\.webp$/
+  );
+  return match ? imageVariantPath(match[1], variant) : url;
+}
+
+export function mediaAt(media: Media, variant: ImageVariant): Media {
+  return media.type === "image"
+    ? { ...media, url: imageVariantUrl(media.url, variant) }
+    : media;
+}
@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Question } from "./schema";
+import {
+  extractMedia,
+  formatQuestionFile,
+  parseQuestionFile,
+  parseQuestionText,
+  toQuestions,
+  type QuestionFileFormat,
+} from "./questionFile";
+
+const questions: Question[] = [
+  {
+    question: "כמה רגליים יש לעכביש?",
+    correctAnswer: "8",
+    acceptedAnswers: ["שמונה", "eight"],
+  },
+  {
+    question: "Which band sang Thunderstruck?",
+    correctAnswer: "AC|DC",
+    acceptedAnswers: ["אייסי|דיסי"],
+    answerMedia: { type: "image", url: "https://example.com/acdc.jpg" },
+  },
+  {
+    question: "מה זה [x]?",
+    correctAnswer: "נעלם",
+    questionMedia: { type: "audio", url: "https://example.com/clip" },
+  },
+];
+
+for (const format of ["text", "json", "csv"] as QuestionFileFormat[]) {
+  test(`reads back what it writes as ${format}`, () => {
+    const { questions: parsed, issues } = parseQuestionFile(
+      formatQuestionFile(questions, format),
+      format
+    );
+    assert.deepEqual(issues, []);
+    assert.deepEqual(toQuestions(parsed), questions);
+  });
+}
+
+test("numbers questions by the line they start on", () => {
+  const text = "Q1?\nA1\n\nQ2?\nA2\n";
+  assert.deepEqual(
+    parseQuestionFile(text, "text").questions.map((q) => q.line),
+    [1, 4]
+  );
+  const csv = "question,correctAnswer\nQ1?,A1\nQ2?,A2";
+  assert.deepEqual(
+    parseQuestionFile(csv, "csv").questions.map((q) => q.line),
+    [2, 3]
+  );
+});
+
+test("points at the question that lost its answer", () => {
+  const { questions: parsed, issues } = parseQuestionText("Q1?\nA1\nQ2?");
+  assert.equal(parsed.length, 1);
+  assert.deepEqual(
+    issues.map(({ line, severity }) => ({ line, severity })),
+    [{ line: 3, severity: "error" }]
+  );
+});
+
+test("warns when an answer line looks like the next question", () => {
+  const { issues } = parseQuestionText("Q1?\nQ2?\nA2");
+  assert.equal(issues[0].line, 2);
+  assert.equal(issues[0].severity, "warning");
+});
+
+test("splits answers on pipes but not on escaped ones", () => {
+  const [question] = parseQuestionText("Q?\nAC\\|DC | איי סי די סי").questions;
+  assert.equal(question.correctAnswer, "AC|DC");
+  assert.deepEqual(question.acceptedAnswers, ["איי סי די סי"]);
+});
+
+test("takes only a trailing web address as media", () => {
+  assert.deepEqual(extractMedia("מה זה [x]?"), {
+    text: "מה זה [x]?",
+    media: null,
+  });
+  assert.deepEqual(extractMedia("[x] marks the spot"), {
+    text: "[x] marks the spot",
+    media: null,
+  });
+  assert.deepEqual(extractMedia("Who? [/uploads/a.mp3]"), {
+    text: "Who?",
+    media: { type: "audio", url: "/uploads/a.mp3" },
+  });
+});
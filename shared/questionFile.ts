@@ -0,0 +1,475 @@
+import type { Media, Question } from "./schema";
+import { formatMediaRef, isWebUrl, mediaTypeOf, parseMediaRef } from "./media";
+import { isSameLie } from "./answerMatch";
+
+// Question sets travel in three shapes:
+//   text - a question line, then its answer line; either may end in a
+//          [media URL], written [audio: URL] when the extension doesn't tell
+//   json - an array of questions, or a pack ({ questions: [...] })
+//   csv  - question,correctAnswer,answerMedia,questionMedia rows, header
+//          optional
+// In text and CSV, other accepted answers follow the answer after pipes:
+// "8 | שמונה | eight". JSON lists them in acceptedAnswers.
+// Files from before question media put the answer's picture in "imageUrl".
+export type QuestionFileFormat = "text" | "json" | "csv";
+
+export type ParsedQuestion = Question & {
+  line: number; // where the question starts in the source
+};
+
+// Errors drop content; warnings flag lines that parse but look off
+export type QuestionFileIssue = {
+  line: number;
+  message: string;
+  severity: "error" | "warning";
+};
+
+export type QuestionFileResult = {
+  questions: ParsedQuestion[];
+  issues: QuestionFileIssue[];
+};
+
+const CSV_HEADERS = {
+  question: ["question", "שאלה"],
+  correctAnswer: ["correctanswer", "answer", "תשובה"],
+  answerMedia: ["answermedia", "imageurl", "image", "תמונה", "מדיה לתשובה"],
+  questionMedia: ["questionmedia", "מדיה לשאלה"],
+};
+
+// "answer [https://...]" -> the text and the bracketed media. Only a web
+// address at the end of the line counts, so "מה זה [x]?" stays a question.
+export function extractMedia(text: string): {
+  text: string;
+  media: Media | null;
+} {
+  const match = text.match(/\[([^\[\]]*)\]\s*$/);
+  const media = match ? parseMediaRef(match[1]) : null;
+  if (match && media && isWebUrl(media.url)) {
+    return { text: text.slice(0, match.index).trim(), media };
+  }
+  return { text, media: null };
+}
+
+// "8 | שמונה | eight" -> ["8", "שמונה", "eight"], the canonical answer first.
+// A pipe that belongs to an answer is written "\|".
+export function splitAnswers(text: string): string[] {
+  const answers: string[] = [];
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\\" && text[i + 1] === "|") {
+      current += "|";
+      i++;
+    } else if (text[i] === "|") {
+      answers.push(current);
+      current = "";
+    } else {
+      current += text[i];
+    }
+  }
+  answers.push(current);
+  return answers.map((answer) => answer.trim()).filter(Boolean);
+}
+
+export function joinAnswers(answers: string[]): string {
+  return answers.map((answer) => answer.replace(/\|/g, "\\|")).join(" | ");
+}
+
+function looksLikeQuestion(text: string): boolean {
+  return /[?؟]$/.test(text);
+}
+
+// Shared checks for a question, wherever it was read from
+function checkQuestion(
+  question: string,
+  correctAnswer: string,
+  acceptedAnswers: string[],
+  questionMedia: Media | null,
+  answerMedia: Media | null,
+  line: number,
+  result: QuestionFileResult
+) {
+  if (!question) {
+    result.issues.push({ line, message: "חסרה שאלה", severity: "error" });
+    return;
+  }
+  if (!correctAnswer) {
+    result.issues.push({
+      line,
+      message: `לשאלה "${question}" אין תשובה`,
+      severity: "error",
+    });
+    return;
+  }
+  for (const media of [questionMedia, answerMedia]) {
+    if (media && !isWebUrl(media.url)) {
+      result.issues.push({
+        line,
+        message: `הקישור "${media.url}" לא נראה כמו כתובת אינטרנט`,
+        severity: "warning",
+      });
+    }
+  }
+  // Repeats of the answer, or of each other, add nothing
+  const aliases = acceptedAnswers.filter(
+    (alias, index) =>
+      !isSameLie(alias, correctAnswer) &&
+      !acceptedAnswers.slice(0, index).some((other) => isSameLie(other, alias))
+  );
+  result.questions.push({
+    question,
+    correctAnswer,
+    ...(aliases.length > 0 && { acceptedAnswers: aliases }),
+    ...(questionMedia && { questionMedia }),
+    ...(answerMedia && { answerMedia }),
+    line,
+  });
+}
+
+export function parseQuestionText(text: string): QuestionFileResult {
+  const result: QuestionFileResult = { questions: [], issues: [] };
+  let pending: { line: number; text: string; media: Media | null } | null =
+    null;
+
+  const lines = text.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = index + 1;
+    const trimmed = lines[index].trim();
+    if (!trimmed) continue;
+
+    if (!pending) {
+      const { text: question, media } = extractMedia(trimmed);
+      pending = { line, text: question, media };
+      continue;
+    }
+
+    const { text: answer, media } = extractMedia(trimmed);
+    // One missing line shifts every later pair, so flag the first sign of it
+    if (looksLikeQuestion(answer) && !media) {
+      result.issues.push({
+        line,
+        message: `התשובה נראית כמו שאלה. אולי חסרה התשובה לשאלה בשורה ${pending.line}?`,
+        severity: "warning",
+      });
+    }
+    const [correctAnswer = "", ...acceptedAnswers] = splitAnswers(answer);
+    checkQuestion(
+      pending.text,
+      correctAnswer,
+      acceptedAnswers,
+      pending.media,
+      media,
+      pending.line,
+      result
+    );
+    pending = null;
+  }
+
+  if (pending) {
+    result.issues.push({
+      line: pending.line,
+      message: `לשאלה "${pending.text}" אין שורת תשובה`,
+      severity: "error",
+    });
+  }
+  return result;
+}
+
+function lineAt(text: string, position: number): number {
+  return text.slice(0, position).split("\n").length;
+}
+
+// Lines where each question object starts, so item errors can point at them
+function objectLines(text: string, depth: number): number[] {
+  const lines: number[] = [];
+  let current = 0;
+  let line = 1;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") line++;
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "{" || char === "[") {
+      if (char === "{" && current === depth) lines.push(line);
+      current++;
+    } else if (char === "}" || char === "]") current--;
+  }
+  return lines;
+}
+
+// Media in JSON is { type, url } or a bare reference string
+function readJsonMedia(value: unknown): Media | null {
+  if (typeof value === "string") return parseMediaRef(value);
+  if (typeof value !== "object" || value === null) return null;
+
+  const { type, url } = value as Record<string, unknown>;
+  if (typeof url !== "string" || !url.trim()) return null;
+  return type === "image" || type === "audio" || type === "video"
+    ? { type, url: url.trim() }
+    : { type: mediaTypeOf(url), url: url.trim() };
+}
+
+export function parseQuestionJson(text: string): QuestionFileResult {
+  const result: QuestionFileResult = { questions: [], issues: [] };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Engines report either an offset or a line
+    const position = message.match(/position (\d+)/);
+    const lineMatch = message.match(/line (\d+)/);
+    const line = position
+      ? lineAt(text, Number(position[1]))
+      : lineMatch
+        ? Number(lineMatch[1])
+        : 1;
+    result.issues.push({ line, message: "JSON לא תקין", severity: "error" });
+    return result;
+  }
+
+  const isPack =
+    !Array.isArray(data) && typeof data === "object" && data !== null;
+  const items = isPack ? (data as { questions?: unknown }).questions : data;
+  if (!Array.isArray(items)) {
+    result.issues.push({
+      line: 1,
+      message: 'צריך מערך של שאלות או אובייקט עם "questions"',
+      severity: "error",
+    });
+    return result;
+  }
+
+  const lines = objectLines(text, isPack ? 2 : 1);
+  items.forEach((item, index) => {
+    const line = lines[index] ?? 1;
+    if (typeof item !== "object" || item === null) {
+      result.issues.push({
+        line,
+        message: `פריט ${index + 1} אינו שאלה`,
+        severity: "error",
+      });
+      return;
+    }
+    const {
+      question,
+      correctAnswer,
+      acceptedAnswers,
+      questionMedia,
+      answerMedia,
+      imageUrl,
+    } = item as Record<string, unknown>;
+    checkQuestion(
+      typeof question === "string" ? question.trim() : "",
+      typeof correctAnswer === "string" ? correctAnswer.trim() : "",
+      Array.isArray(acceptedAnswers)
+        ? acceptedAnswers
+            .filter((alias): alias is string => typeof alias === "string")
+            .map((alias) => alias.trim())
+            .filter(Boolean)
+        : [],
+      readJsonMedia(questionMedia),
+      readJsonMedia(answerMedia ?? imageUrl),
+      line,
+      result
+    );
+  });
+  return result;
+}
+
+// RFC 4180 rows, with the line each row starts on
+function csvRows(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((value) => value.trim())) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      endRow();
+      line++;
+      rowLine = line;
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+export function parseQuestionCsv(text: string): QuestionFileResult {
+  const result: QuestionFileResult = { questions: [], issues: [] };
+  const rows = csvRows(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) return result;
+
+  // Columns come from the header when there is one, else by position
+  const header = rows[0].cells.map((cell) => cell.trim().toLowerCase());
+  const column = (names: string[]) =>
+    header.findIndex((cell) => names.includes(cell));
+  const hasHeader = column(CSV_HEADERS.question) !== -1;
+  const questionCol = hasHeader ? column(CSV_HEADERS.question) : 0;
+  const answerCol = hasHeader ? column(CSV_HEADERS.correctAnswer) : 1;
+  const answerMediaCol = hasHeader ? column(CSV_HEADERS.answerMedia) : 2;
+  const questionMediaCol = hasHeader ? column(CSV_HEADERS.questionMedia) : 3;
+
+  if (answerCol === -1) {
+    result.issues.push({
+      line: rows[0].line,
+      message: "בכותרת חסרה עמודת תשובה",
+      severity: "error",
+    });
+    return result;
+  }
+
+  for (const { line, cells } of rows.slice(hasHeader ? 1 : 0)) {
+    const cellAt = (col: number) => (cells[col] ?? "").trim();
+    const [correctAnswer = "", ...acceptedAnswers] = splitAnswers(
+      cellAt(answerCol)
+    );
+    checkQuestion(
+      cellAt(questionCol),
+      correctAnswer,
+      acceptedAnswers,
+      parseMediaRef(cellAt(questionMediaCol)),
+      parseMediaRef(cellAt(answerMediaCol)),
+      line,
+      result
+    );
+  }
+  return result;
+}
+
+// Guess the format from a file name, falling back to the content
+export function detectQuestionFormat(
+  text: string,
+  fileName?: string
+): QuestionFileFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "json") return "json";
+  if (extension === "csv") return "csv";
+  if (extension === "txt") return "text";
+  return /^\s*[[{]/.test(text) ? "json" : "text";
+}
+
+export function parseQuestionFile(
+  text: string,
+  format: QuestionFileFormat
+): QuestionFileResult {
+  switch (format) {
+    case "json":
+      return parseQuestionJson(text);
+    case "csv":
+      return parseQuestionCsv(text);
+    default:
+      return parseQuestionText(text);
+  }
+}
+
+function oneLine(value: string): string {
+  return value.replace(/\s*\n\s*/g, " ");
+}
+
+function mediaSuffix(media: Media | undefined): string {
+  return media ? ` [${formatMediaRef(media)}]` : "";
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatQuestionFile(
+  questions: Question[],
+  format: QuestionFileFormat
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        questions.map(
+          ({
+            question,
+            correctAnswer,
+            acceptedAnswers,
+            questionMedia,
+            answerMedia,
+          }) => ({
+            question,
+            correctAnswer,
+            ...(acceptedAnswers?.length && { acceptedAnswers }),
+            ...(questionMedia && { questionMedia }),
+            ...(answerMedia && { answerMedia }),
+          })
+        ),
+        null,
+        2
+      );
+    case "csv":
+      return [
+        "question,correctAnswer,answerMedia,questionMedia",
+        ...questions.map((q) =>
+          [
+            q.question,
+            joinAnswers([q.correctAnswer, ...(q.acceptedAnswers ?? [])]),
+            q.answerMedia ? formatMediaRef(q.answerMedia) : "",
+            q.questionMedia ? formatMediaRef(q.questionMedia) : "",
+          ]
+            .map(csvCell)
+            .join(",")
+        ),
+      ].join("\n");
+    default:
+      // One line each, or the pairs would shift
+      return questions
+        .map(
+          ({
+            question,
+            correctAnswer,
+            acceptedAnswers = [],
+            questionMedia,
+            answerMedia,
+          }) =>
+            [
+              oneLine(question) + mediaSuffix(questionMedia),
+              oneLine(joinAnswers([correctAnswer, ...acceptedAnswers])) +
+                mediaSuffix(answerMedia),
+            ].join("\n")
+        )
+        .join("\n");
+  }
+}
+
+// Drop the source line numbers before questions leave the parser
+export function toQuestions(parsed: ParsedQuestion[]): Question[] {
+  return parsed.map(({ line, ...question }) => question);
+}
@@ -0,0 +1,35 @@
+// Room code alphabets. "letters" leaves out I, L and O, which are easy to
+// misread as 1 and 0 or as each other on a phone screen.
+export const ROOM_CODE_ALPHABETS = {
+  digits: "0123456789",
+  letters: "ABCDEFGHJKMNPQRSTUVWXYZ",
+} as const;
+
+export const ROOM_CODE_MIN_LENGTH = 4;
+export const ROOM_CODE_MAX_LENGTH = 10;
+
+export type RoomCodeFormat = {
+  alphabet: keyof typeof ROOM_CODE_ALPHABETS;
+  length: number;
+};
+
+export const DEFAULT_ROOM_CODE_FORMAT: RoomCodeFormat = {
+  alphabet: "digits",
+  length: 4,
+};
+
+// Turn whatever was typed into a code candidate: upper case, only characters
+// the alphabet can produce, cut to length
+export function normalizeRoomCode(input: string, format: RoomCodeFormat) {
+  const allowed = ROOM_CODE_ALPHABETS[format.alphabet];
+  return Array.from(input.toUpperCase())
+    .filter((char) => allowed.includes(char))
+    .join("")
+    .slice(0, format.length);
+}
+
+export function isValidRoomCode(code: string, format: RoomCodeFormat) {
+  return (
+    code.length === format.length && normalizeRoomCode(code, format) === code
+  );
+}
@@ -1,95 +1,507 @@
 import { z } from "zod";
+import {
+  pgTable,
+  text,
+  integer,
+  bigint,
+  boolean,
+  jsonb,
+  timestamp,
+  primaryKey,
+} from "drizzle-orm/pg-core";
+import {
+  ROOM_CODE_MIN_LENGTH,
+  ROOM_CODE_MAX_LENGTH,
+  type RoomCodeFormat,
+} from "./roomCode";
 
-// Question with correct answer
+// Exact format is a server setting; this only bounds what is accepted
+const roomCodeSchema = z
+  .string()
+  .min(ROOM_CODE_MIN_LENGTH)
+  .max(ROOM_CODE_MAX_LENGTH);
+
+export const mediaSchema = z.object({
+  type: z.enum(["image", "audio", "video"]),
+  url: z.string().trim().min(1).max(2000),
+});
+
+// Question with correct answer. Question media plays while players write
+// their lies; answer media comes with the reveal.
 export const questionSchema = z.object({
-  question: z.string(),
-  correctAnswer: z.string(),
-  imageUrl: z.string().optional(),
+  question: z.string().max(1000),
+  correctAnswer: z.string().max(200),
+  // Other forms of the truth ("8" / "eight"): never allowed as lies, and
+  // listed with the answer on the reveal
+  acceptedAnswers: z
+    .array(z.string().trim().min(1).max(200))
+    .max(20)
+    .optional(),
+  questionMedia: mediaSchema.optional(),
+  answerMedia: mediaSchema.optional(),
+});
+
+// Per-room rules chosen by the host when creating the room
+export const roomSettingsSchema = z.object({
+  correctPoints: z.number().int().min(0).max(1000).default(10),
+  foolPoints: z.number().int().min(0).max(1000).default(5),
+  likePoints: z.number().int().min(0).max(1000).default(2), // per like, to the lie's authors
+  // Phase countdowns in seconds; 0 leaves the phase to the host
+  questionSeconds: z.number().int().min(0).max(600).default(60),
+  votingSeconds: z.number().int().min(0).max(600).default(30),
+  maxPlayers: z.number().int().min(1).max(100).default(20),
+  // Joiners past maxPlayers, or who ask to, watch and vote as the audience
+  allowAudience: z.boolean().default(true),
+  audienceBonus: z.number().int().min(0).max(1000).default(0), // to the authors of the crowd's favourite lie; 0 = off
+  maxQuestions: z.number().int().min(1).max(100).nullable().default(null), // null = all
+  shuffleQuestions: z.boolean().default(false),
+  allowLateJoin: z.boolean().default(true),
+  allowSelfVote: z.boolean().default(false),
+  reviewLies: z.boolean().default(false), // host vets the lies before voting opens
+  mediaOnPhones: z.boolean().default(false), // question media on players' screens too, not just the host's
+  // What happens to names and lies with blocked words: kept, starred out or refused
+  contentFilter: z.enum(["off", "mask", "reject"]).default("mask"),
+  blockedWords: z.array(z.string().trim().min(1).max(30)).max(200).default([]), // on top of the built-in lists
+  // Team play: one lie per team, scores summed per team; empty plays solo
+  teams: z
+    .array(z.string().trim().min(1).max(30))
+    .max(8)
+    .refine(
+      (names) => names.length !== 1 && new Set(names).size === names.length,
+      "צריך לפחות שתי קבוצות, כל אחת בשם אחר"
+    )
+    .default([]),
+  autoTeams: z.boolean().default(false), // the server balances the teams instead of players picking
 });
 
 // Room and game state types
 export const roomSchema = z.object({
-  code: z.string().length(4),
+  code: roomCodeSchema,
   hostId: z.string(),
+  hostToken: z.string(),
   questions: z.array(questionSchema),
   currentQuestionIndex: z.number(),
   players: z.record(z.string(), z.string()), // socketId -> playerName
   answers: z.record(z.string(), z.string()), // socketId -> answer
   scores: z.record(z.string(), z.number()).default({}), // socketId -> score
-  state: z.enum(["waiting", "question", "voting", "revealing", "complete"]),
+  roundScores: z.record(z.string(), z.number()).default({}), // socketId -> points gained this round
+  offline: z.record(z.string(), z.boolean()).default({}), // socketId -> true while disconnected
+  votes: z.record(z.string(), z.string()).default({}), // socketId -> selected answer
+  likes: z.record(z.string(), z.array(z.string())).default({}), // socketId -> lies liked this round
+  tokens: z.record(z.string(), z.string()).default({}), // playerToken -> socketId
+  playerIds: z.record(z.string(), z.string()).default({}), // socketId -> stable public playerId
+  stats: z
+    .record(
+      z.string(),
+      z.object({ fooled: z.number(), correct: z.number(), liked: z.number() })
+    )
+    .default({}), // socketId -> whole-game totals for awards
+  devices: z.record(z.string(), z.string()).default({}), // socketId -> deviceId the player joined from
+  teams: z.record(z.string(), z.number()).default({}), // socketId -> index into settings.teams
+  bans: z
+    .array(z.object({ name: z.string(), deviceId: z.string().nullable() }))
+    .default([]), // players the host banned from the room
+  settings: roomSettingsSchema,
+  deadline: z.number().nullable().default(null), // epoch ms when the current phase times out
+  state: z.enum([
+    "waiting",
+    "question",
+    "reviewing", // host is vetting the lies; authors of struck ones may resubmit
+    "voting",
+    "revealing",
+    "complete",
+  ]),
+  lastActivity: z.number(), // epoch ms of the last client event aimed at the room
 });
 
 export const playerSchema = z.object({
   id: z.string(),
   name: z.string().min(1).max(30),
-  roomCode: z.string().length(4),
+  roomCode: roomCodeSchema,
   isHost: z.boolean().default(false),
 });
 
 // Socket event schemas
 export const createRoomSchema = z.object({
-  questions: z.array(questionSchema).min(1).max(100),
+  questions: z.array(questionSchema).max(100).default([]),
+  packIds: z.array(z.string().min(1)).max(20).default([]), // saved packs to play, after the pasted questions
+  settings: roomSettingsSchema.default({}),
+});
+
+// Saved question pack as sent to /api/packs
+export const questionPackInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  language: z.string().trim().min(2).max(10).default("he"), // ISO 639-1
+  tags: z.array(z.string().trim().min(1).max(30)).max(20).default([]),
+  questions: z.array(questionSchema).min(1).max(500),
 });
 
+// A pack whose questions are still a text, JSON or CSV file
+export const questionPackImportSchema = questionPackInputSchema
+  .omit({ questions: true })
+  .extend({
+    format: z.enum(["text", "json", "csv"]),
+    content: z.string().min(1).max(5_000_000),
+  });
+
+const playerNameSchema = z.string().trim().min(1).max(30);
+
 export const joinRoomSchema = z.object({
-  code: z.string().length(4),
-  name: z.string().min(1).max(30),
+  code: roomCodeSchema,
+  name: playerNameSchema,
+  deviceId: z.string().uuid().optional(), // lets a ban outlive the player's token
+  audience: z.boolean().optional(), // spectate instead of taking a seat
+});
+
+export const chooseTeamSchema = z.object({
+  code: roomCodeSchema,
+  team: z.number().int().min(0),
+});
+
+export const rejoinRoomSchema = z.object({
+  code: roomCodeSchema,
+  playerToken: z.string().min(1),
+});
+
+// A player giving up their seat for good, not just disconnecting
+export const leaveRoomSchema = z.object({
+  code: roomCodeSchema,
+});
+
+// A shared screen watches the room without taking a seat
+export const joinDisplaySchema = z.object({
+  code: roomCodeSchema,
 });
 
 export const submitAnswerSchema = z.object({
-  code: z.string().length(4),
-  answer: z.string().min(1).max(500),
+  code: roomCodeSchema,
+  answer: z.string().trim().min(1).max(500),
 });
 
 export const voteAnswerSchema = z.object({
-  code: z.string().length(4),
+  code: roomCodeSchema,
   selectedAnswer: z.string(),
 });
 
-export const hostActionSchema = z.object({
-  code: z.string().length(4),
-  action: z.enum(["start", "show_voting", "reveal", "next"]),
+export const likeAnswerSchema = z.object({
+  code: roomCodeSchema,
+  answer: z.string(),
+});
+
+// Game flow actions, plus moderation actions aimed at one player
+export const hostActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    code: roomCodeSchema,
+    action: z.enum(["start", "show_voting", "reveal", "next"]),
+  }),
+  z.object({
+    code: roomCodeSchema,
+    action: z.enum(["kick", "ban", "strike"]),
+    playerId: z.string().min(1),
+  }),
+  z.object({
+    code: roomCodeSchema,
+    action: z.literal("rename"),
+    playerId: z.string().min(1),
+    name: playerNameSchema,
+  }),
+]);
+
+export const reclaimHostSchema = z.object({
+  code: roomCodeSchema,
+  hostToken: z.string().min(1),
+});
+
+export const transferHostSchema = z.object({
+  code: roomCodeSchema,
+  playerId: z.string().min(1),
+});
+
+// Database tables (DbStorage). Per-player rows are keyed by the stable
+// playerId; the socket a player is currently on is just a column.
+export const rooms = pgTable("rooms", {
+  code: text("code").primaryKey(),
+  hostId: text("host_id").notNull(),
+  hostToken: text("host_token").notNull(),
+  currentQuestionIndex: integer("current_question_index").notNull().default(0),
+  state: text("state").$type<Room["state"]>().notNull().default("waiting"),
+  deadline: bigint("deadline", { mode: "number" }),
+  settings: jsonb("settings").$type<RoomSettings>().notNull(),
+  bans: jsonb("bans").$type<Room["bans"]>().notNull().default([]),
+  lastActivity: bigint("last_activity", { mode: "number" }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const questions = pgTable(
+  "questions",
+  {
+    roomCode: text("room_code")
+      .notNull()
+      .references(() => rooms.code, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    question: text("question").notNull(),
+    correctAnswer: text("correct_answer").notNull(),
+    acceptedAnswers: jsonb("accepted_answers").$type<string[]>(),
+    questionMedia: jsonb("question_media").$type<Media>(),
+    answerMedia: jsonb("answer_media").$type<Media>(),
+  },
+  (table) => [primaryKey({ columns: [table.roomCode, table.position] })]
+);
+
+export const players = pgTable("players", {
+  id: text("id").primaryKey(),
+  roomCode: text("room_code")
+    .notNull()
+    .references(() => rooms.code, { onDelete: "cascade" }),
+  socketId: text("socket_id").notNull(),
+  token: text("token").notNull().unique(),
+  name: text("name").notNull(),
+  deviceId: text("device_id"),
+  team: integer("team"), // index into the room's settings.teams
+  offline: boolean("offline").notNull().default(false),
+  joinedAt: timestamp("joined_at").notNull().defaultNow(),
+});
+
+export const answers = pgTable("answers", {
+  playerId: text("player_id")
+    .primaryKey()
+    .references(() => players.id, { onDelete: "cascade" }),
+  roomCode: text("room_code").notNull(),
+  answer: text("answer").notNull(),
+});
+
+export const votes = pgTable("votes", {
+  playerId: text("player_id")
+    .primaryKey()
+    .references(() => players.id, { onDelete: "cascade" }),
+  roomCode: text("room_code").notNull(),
+  selectedAnswer: text("selected_answer").notNull(),
+});
+
+// Any number per player and round, but one per lie
+export const likes = pgTable(
+  "likes",
+  {
+    playerId: text("player_id")
+      .notNull()
+      .references(() => players.id, { onDelete: "cascade" }),
+    roomCode: text("room_code").notNull(),
+    answer: text("answer").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.playerId, table.answer] })]
+);
+
+export const scores = pgTable("scores", {
+  playerId: text("player_id")
+    .primaryKey()
+    .references(() => players.id, { onDelete: "cascade" }),
+  roomCode: text("room_code").notNull(),
+  score: integer("score").notNull().default(0),
+  roundScore: integer("round_score").notNull().default(0),
+  fooled: integer("fooled").notNull().default(0),
+  correct: integer("correct").notNull().default(0),
+  liked: integer("liked").notNull().default(0),
+});
+
+export const questionPacks = pgTable("question_packs", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  language: text("language").notNull(),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  questions: jsonb("questions").$type<Question[]>().notNull(),
+  // Needed to edit or delete the pack; packs saved before it have none
+  ownerToken: text("owner_token").notNull().default(""),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 // Types
+export type Media = z.infer<typeof mediaSchema>;
+export type MediaType = Media["type"];
 export type Question = z.infer<typeof questionSchema>;
+export type RoomSettings = z.infer<typeof roomSettingsSchema>;
 export type Room = z.infer<typeof roomSchema>;
 export type Player = z.infer<typeof playerSchema>;
 export type CreateRoomData = z.infer<typeof createRoomSchema>;
 export type JoinRoomData = z.infer<typeof joinRoomSchema>;
+export type RejoinRoomData = z.infer<typeof rejoinRoomSchema>;
+export type JoinDisplayData = z.infer<typeof joinDisplaySchema>;
+export type LeaveRoomData = z.infer<typeof leaveRoomSchema>;
+export type ChooseTeamData = z.infer<typeof chooseTeamSchema>;
 export type SubmitAnswerData = z.infer<typeof submitAnswerSchema>;
 export type VoteAnswerData = z.infer<typeof voteAnswerSchema>;
+export type LikeAnswerData = z.infer<typeof likeAnswerSchema>;
 export type HostActionData = z.infer<typeof hostActionSchema>;
+export type ReclaimHostData = z.infer<typeof reclaimHostSchema>;
+export type TransferHostData = z.infer<typeof transferHostSchema>;
+
+export type QuestionPackInput = z.infer<typeof questionPackInputSchema>;
+export type QuestionPack = QuestionPackInput & {
+  id: string;
+  updatedAt: string; // ISO timestamp
+};
+// Pack list entry; the questions are fetched per pack
+export type QuestionPackSummary = Omit<QuestionPack, "questions"> & {
+  questionCount: number;
+};
+// Ranked standing; tied players share a rank
+export type Standing = {
+  id: string;
+  name: string;
+  score: number;
+  gained: number; // points this round
+  rank: number;
+};
+
+// End-of-game award; several players may share it
+export type Award = {
+  kind: "best_liar" | "best_detective" | "crowd_favourite";
+  winners: Array<{ id: string; name: string }>;
+  value: number;
+};
+
+// A submitted lie as the host sees it during review
+export type ReviewedLie = {
+  playerId: string;
+  name: string;
+  answer: string;
+};
+
+// One voting option as the reveal walks through it
+export type RevealedAnswer = {
+  answer: string;
+  isCorrect: boolean;
+  authors: string[]; // who wrote this lie: players, or teams in team play
+  voters: string[]; // names of the players who picked it
+  audienceVotes: number;
+  likes: number;
+};
+
+// Roster entry broadcast to clients
+export type PlayerSummary = {
+  id: string;
+  name: string;
+  connected: boolean;
+  hasAnswered: boolean;
+  hasVoted: boolean;
+  team: number | null; // index into settings.teams in team play
+};
+
+// A team's place in team play; its score is the sum of its members'
+export type TeamStanding = {
+  team: number;
+  name: string;
+  score: number;
+  gained: number; // points this round
+  rank: number;
+  members: string[];
+};
 
 // Socket event types
 export interface ServerToClientEvents {
-  "room:created": (data: { code: string }) => void;
-  "room:joined": (data: { code: string; players: string[] }) => void;
-  "room:players": (players: string[]) => void;
+  "server:config": (data: { roomCode: RoomCodeFormat }) => void;
+  "room:created": (data: { code: string; hostToken: string }) => void;
+  "room:joined": (data: {
+    code: string;
+    players: PlayerSummary[];
+    playerId: string;
+    playerToken: string;
+    name: string; // may carry a suffix if the name was taken
+    settings: RoomSettings;
+  }) => void;
+  "room:rejoined": (data: {
+    code: string;
+    playerId: string;
+    name: string;
+    players: PlayerSummary[];
+    settings: RoomSettings;
+    answer: string | null;
+    votedFor: string | null;
+    liked: string[]; // lies liked this round
+  }) => void;
+  "room:rejoin_failed": () => void;
+  "display:joined": (data: {
+    code: string;
+    players: PlayerSummary[];
+    settings: RoomSettings;
+  }) => void;
+  "display:join_failed": (data: { reason: string }) => void;
+  "audience:joined": (data: {
+    code: string;
+    name: string;
+    players: PlayerSummary[];
+    settings: RoomSettings;
+    overflow: boolean; // sent to the audience because no seat was open
+  }) => void;
+  // Audience votes per voting option, and how many are watching
+  "audience:votes": (data: {
+    votes: Record<string, number>;
+    size: number;
+  }) => void;
+  "room:players": (players: PlayerSummary[]) => void;
+  "host:reclaimed": (data: { code: string; players: PlayerSummary[] }) => void;
+  "host:reclaim_failed": () => void;
+  "host:granted": (data: {
+    code: string;
+    hostToken: string;
+    players: PlayerSummary[];
+  }) => void;
+  "host:revoked": () => void;
   "game:question": (data: {
     question: string;
     questionIndex: number;
     totalQuestions: number;
-    imageUrl?: string;
+    media?: Media;
+    deadline: number | null;
+    serverNow: number;
   }) => void;
   "game:voting": (data: {
-    answers: Array<{ answer: string; isCorrect?: boolean }>;
+    answers: Array<{ answer: string }>;
+    deadline: number | null;
+    serverNow: number;
   }) => void;
   "game:results": (data: {
     correctAnswer: string;
-    imageUrl?: string | null;
+    acceptedAnswers: string[];
+    media?: Media;
+    nextMedia?: Media; // the next question's media, to preload during the reveal
+    reveal: RevealedAnswer[]; // lies first, the truth last
     scores: Array<{ name: string; score: number; gained: number }>;
-    leaderboard: Array<{ name: string; score: number }>;
+    leaderboard: Standing[];
+    teamLeaderboard: TeamStanding[]; // empty outside team play
+  }) => void;
+  "answer:rejected": (data: { reason: string }) => void;
+  "game:review": (data: { lies: ReviewedLie[] }) => void;
+  "game:complete": (data: {
+    standings: Standing[];
+    teamStandings: TeamStanding[];
+    awards: Award[];
   }) => void;
-  "game:complete": () => void;
+  // A teammate sent the team's lie
+  "team:answered": (data: { answer: string; name: string }) => void;
   "game:ended": () => void;
+  "room:expired": () => void;
+  "room:kicked": (data: { banned: boolean }) => void;
+  "player:renamed": (data: { name: string }) => void;
   error: (message: string) => void;
 }
 
+// Whether the server kept an answer, vote or like, so the client can take
+// back what it showed before hearing back
+type AcceptedAck = (accepted: boolean) => void;
+
 export interface ClientToServerEvents {
   "room:create": (data: CreateRoomData) => void;
   "room:join": (data: JoinRoomData) => void;
-  "answer:submit": (data: SubmitAnswerData) => void;
-  "answer:vote": (data: VoteAnswerData) => void;
+  "room:rejoin": (data: RejoinRoomData) => void;
+  "room:leave": (data: LeaveRoomData) => void;
+  "display:join": (data: JoinDisplayData) => void;
+  "answer:submit": (data: SubmitAnswerData, ack?: AcceptedAck) => void;
+  "answer:vote": (data: VoteAnswerData, ack?: AcceptedAck) => void;
+  "audience:vote": (data: VoteAnswerData, ack?: AcceptedAck) => void;
+  "answer:like": (data: LikeAnswerData, ack?: AcceptedAck) => void;
+  "team:choose": (data: ChooseTeamData) => void;
   "host:action": (data: HostActionData) => void;
+  "host:reclaim": (data: ReclaimHostData) => void;
+  "host:transfer": (data: TransferHostData) => void;
 }